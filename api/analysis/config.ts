@@ -0,0 +1,183 @@
+import { existsSync, readFileSync } from "node:fs";
+
+/**
+ * 옵션 가격 모델
+ * - black-scholes: 유럽형 Black-Scholes (기본)
+ * - binomial: 미국형 CRR 이항 트리 (조기 행사 반영, IV 역산 / Gamma)
+ */
+export type PricingModel = "black-scholes" | "binomial";
+
+export const PRICING_MODELS: PricingModel[] = ["black-scholes", "binomial"];
+
+/**
+ * 분석 파라미터 (기존 metrics.ts 상수 + /api/analysis 인라인 값)
+ */
+export interface AnalysisConfig {
+  riskFreeRate: number;
+  dividendYield: number;
+  ivClampMin: number;
+  ivClampMax: number;
+  scalpSdMultiplier: number; // 1-SD 예상 범위 축소 배수
+  volatilityTriggerRatio: number; // Vol Trigger = Gamma Flip × ratio
+  moneynessFilter: number; // 행사가 필터 범위 (±)
+  expirationWeightExponent: number; // 만기 가중치 1 / T^x (0.5 = 1/sqrt(T))
+  putDominanceRatio: number; // 트랩 경고: Put Wall OI ≥ Call Wall OI × ratio
+  callWallProximity: number; // 트랩 경고: 현재가 - Call Wall 거리 비율
+  swingBaseTargetRatio: number; // 스윙 Base Target = 청산가 × ratio
+  swingProbabilityMin: number; // 스윙 시나리오 확률 하한 (%)
+  swingProbabilityMax: number; // 스윙 시나리오 확률 상한 (%)
+  maxSpreadRatio: number; // Wall/GEX 제외 기준 (ask - bid) / mid, 0 = 비활성
+  excludeZeroBid: boolean; // bid 0 옵션을 Wall/GEX에서 제외
+  pricingModel: PricingModel;
+  useRateCurve: boolean; // 만기별 금리 곡선 (파일 / ^IRX, 없으면 riskFreeRate), false = riskFreeRate 고정
+}
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  riskFreeRate: 0.043,
+  dividendYield: 0.006,
+  ivClampMin: 0.0001,
+  ivClampMax: 5.0,
+  scalpSdMultiplier: 0.4,
+  volatilityTriggerRatio: 0.985,
+  moneynessFilter: 0.1,
+  expirationWeightExponent: 0.5,
+  putDominanceRatio: 1.5,
+  callWallProximity: 0.01,
+  swingBaseTargetRatio: 0.995,
+  swingProbabilityMin: 35,
+  swingProbabilityMax: 80,
+  maxSpreadRatio: 0,
+  excludeZeroBid: false,
+  pricingModel: "black-scholes",
+  useRateCurve: true,
+};
+
+export const DEFAULT_ANALYSIS_CONFIG_FILE = "analysis.config.json";
+
+const CONFIG_KEYS = Object.keys(DEFAULT_ANALYSIS_CONFIG) as (keyof AnalysisConfig)[];
+
+type BooleanConfigKey = "excludeZeroBid" | "useRateCurve";
+type NumericConfigKey = Exclude<keyof AnalysisConfig, BooleanConfigKey | "pricingModel">;
+
+const BOOLEAN_KEYS: BooleanConfigKey[] = ["excludeZeroBid", "useRateCurve"];
+
+// query 값은 문자열이므로 "true" / "false"도 허용
+const parseBoolean = (key: string, raw: unknown): boolean => {
+  if (raw === true || raw === "true") return true;
+  if (raw === false || raw === "false") return false;
+  throw new Error(`Analysis config ${key} must be true or false.`);
+};
+
+/**
+ * 기본 설정 위에 부분 설정을 덮어쓰기
+ * - 알 수 없는 키, 숫자 키에 숫자가 아닌 값, 플래그에 true/false 이외 값, 알 수 없는 pricingModel은 에러
+ */
+export const mergeAnalysisConfig = (
+  base: AnalysisConfig,
+  overrides: unknown
+): AnalysisConfig => {
+  if (overrides === undefined || overrides === null) return base;
+  if (typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("Analysis config overrides must be an object.");
+  }
+
+  const merged: AnalysisConfig = { ...base };
+  for (const [key, raw] of Object.entries(overrides)) {
+    if (!CONFIG_KEYS.includes(key as keyof AnalysisConfig)) {
+      throw new Error(`Unknown analysis config key: ${key}`);
+    }
+    if (key === "pricingModel") {
+      if (!PRICING_MODELS.includes(raw as PricingModel)) {
+        throw new Error(
+          `Analysis config pricingModel must be one of: ${PRICING_MODELS.join(", ")}.`
+        );
+      }
+      merged.pricingModel = raw as PricingModel;
+      continue;
+    }
+    if (BOOLEAN_KEYS.includes(key as BooleanConfigKey)) {
+      merged[key as BooleanConfigKey] = parseBoolean(key, raw);
+      continue;
+    }
+    // 빈 문자열 / 공백은 Number("") = 0 이 되므로 숫자로 보지 않음
+    const value =
+      typeof raw === "string" ? (raw.trim() ? Number(raw) : NaN) : raw;
+    if (typeof value !== "number" || !isFinite(value)) {
+      throw new Error(`Analysis config ${key} must be a finite number.`);
+    }
+    merged[key as NumericConfigKey] = value;
+  }
+
+  if (!(merged.moneynessFilter > 0 && merged.moneynessFilter < 1)) {
+    throw new Error("Analysis config moneynessFilter must be between 0 and 1.");
+  }
+  if (!(merged.ivClampMin > 0 && merged.ivClampMin < merged.ivClampMax)) {
+    throw new Error("Analysis config ivClampMin must be positive and below ivClampMax.");
+  }
+  if (merged.maxSpreadRatio < 0) {
+    throw new Error("Analysis config maxSpreadRatio must not be negative.");
+  }
+  if (merged.swingProbabilityMin > merged.swingProbabilityMax) {
+    throw new Error(
+      "Analysis config swingProbabilityMin must not exceed swingProbabilityMax."
+    );
+  }
+  return merged;
+};
+
+/**
+ * JSON 파일에서 설정 로드
+ * - ANALYSIS_CONFIG_FILE 지정 시 해당 파일 (없으면 에러)
+ * - 미지정 시 analysis.config.json 이 있으면 사용, 없으면 기본값
+ */
+export const loadAnalysisConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): AnalysisConfig => {
+  const filePath = env.ANALYSIS_CONFIG_FILE || DEFAULT_ANALYSIS_CONFIG_FILE;
+  if (!env.ANALYSIS_CONFIG_FILE && !existsSync(filePath)) {
+    return DEFAULT_ANALYSIS_CONFIG;
+  }
+  const parsed = JSON.parse(readFileSync(filePath, "utf8")) as unknown;
+  return mergeAnalysisConfig(DEFAULT_ANALYSIS_CONFIG, parsed);
+};
+
+/**
+ * 요청별 덮어쓰기 추출
+ * - query: ?config={json} 또는 설정 키 이름 그대로 (?moneynessFilter=0.15)
+ * - body: { config: { ... } }
+ */
+export const extractConfigOverrides = (
+  query: Record<string, unknown>,
+  body?: unknown
+): Record<string, unknown> => {
+  const overrides: Record<string, unknown> = {};
+
+  if (typeof query.config === "string" && query.config.trim()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(query.config);
+    } catch {
+      throw new Error("Query parameter config must be a JSON object.");
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("Query parameter config must be a JSON object.");
+    }
+    Object.assign(overrides, parsed);
+  }
+  for (const key of CONFIG_KEYS) {
+    if (query[key] !== undefined) overrides[key] = query[key];
+  }
+
+  const bodyConfig =
+    body && typeof body === "object" && "config" in body
+      ? (body as { config?: unknown }).config
+      : undefined;
+  if (bodyConfig !== undefined && bodyConfig !== null) {
+    if (typeof bodyConfig !== "object" || Array.isArray(bodyConfig)) {
+      throw new Error("Body field config must be an object.");
+    }
+    Object.assign(overrides, bodyConfig);
+  }
+
+  return overrides;
+};
@@ -0,0 +1,175 @@
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from "./config.js";
+import {
+  findTrueGammaFlip,
+  type GammaFlipStatus,
+  type ProcessedOption,
+} from "./metrics.js";
+
+/**
+ * 딜러 포지셔닝 모델
+ * - classic: 딜러 콜 롱 / 풋 숏 (고객 콜 매도, 풋 매수)
+ * - flow: 당일 거래량 / OI 비중만큼은 고객 신규 매수로 간주 (콜은 그 비중만큼 딜러 숏으로 전환)
+ * - custom: 사용자 지정 행사가별 고객 롱 비중 (지정하지 않은 행사가는 classic)
+ */
+export type DealerModel = "classic" | "flow" | "custom";
+
+export const DEALER_MODELS: DealerModel[] = ["classic", "flow", "custom"];
+
+export interface CustomerPositionOverride {
+  strike: number;
+  type: "call" | "put";
+  customerLongFraction: number; // 0~1, OI 중 고객 롱 비중
+}
+
+export interface DealerPositioning {
+  model: DealerModel;
+  overrides: CustomerPositionOverride[];
+}
+
+export interface DealerModelSummary {
+  model: DealerModel;
+  callGex: number;
+  putGex: number;
+  totalGex: number;
+  callDex: number;
+  putDex: number;
+  totalDex: number;
+  gammaFlip: number | null;
+  gammaFlipStatus: GammaFlipStatus;
+}
+
+export const DEFAULT_DEALER_POSITIONING: DealerPositioning = {
+  model: "classic",
+  overrides: [],
+};
+
+const parseOverrides = (raw: unknown): CustomerPositionOverride[] => {
+  if (!Array.isArray(raw)) {
+    throw new Error("dealerPositions must be an array.");
+  }
+  return raw.map((entry) => {
+    const item = entry as Partial<CustomerPositionOverride> | null;
+    const strike = Number(item?.strike);
+    const fraction = Number(item?.customerLongFraction);
+    if (!item || !(strike > 0)) {
+      throw new Error("dealerPositions strike must be a positive number.");
+    }
+    if (item.type !== "call" && item.type !== "put") {
+      throw new Error('dealerPositions type must be "call" or "put".');
+    }
+    if (!(fraction >= 0 && fraction <= 1)) {
+      throw new Error("dealerPositions customerLongFraction must be between 0 and 1.");
+    }
+    return { strike, type: item.type, customerLongFraction: fraction };
+  });
+};
+
+/**
+ * 요청별 포지셔닝 모델 추출
+ * - query: ?dealerModel=flow&dealerPositions=[{"strike":500,"type":"call","customerLongFraction":0.7}]
+ * - body: { dealerModel, dealerPositions }
+ */
+export const extractDealerPositioning = (
+  query: Record<string, unknown>,
+  body?: unknown
+): DealerPositioning => {
+  const bodyFields =
+    body && typeof body === "object"
+      ? (body as { dealerModel?: unknown; dealerPositions?: unknown })
+      : {};
+  const rawModel = bodyFields.dealerModel ?? query.dealerModel;
+  const model = rawModel === undefined ? "classic" : rawModel;
+  if (!DEALER_MODELS.includes(model as DealerModel)) {
+    throw new Error(`Unknown dealerModel: ${String(model)}`);
+  }
+
+  let rawPositions = bodyFields.dealerPositions ?? query.dealerPositions;
+  if (typeof rawPositions === "string") {
+    try {
+      rawPositions = JSON.parse(rawPositions);
+    } catch {
+      throw new Error("Query parameter dealerPositions must be a JSON array.");
+    }
+  }
+
+  return {
+    model: model as DealerModel,
+    overrides: rawPositions === undefined ? [] : parseOverrides(rawPositions),
+  };
+};
+
+const customerLongFraction = (
+  opt: ProcessedOption,
+  positioning: DealerPositioning
+): number => {
+  const classic = opt.type === "call" ? 0 : 1;
+  if (positioning.model === "flow") {
+    // 신규 거래량(Volume/OI) 비중은 고객 매수로 간주, 나머지는 classic
+    const flowShare = Math.min(
+      (opt.volume || 0) / Math.max(opt.openInterest || 0, 1),
+      1
+    );
+    return opt.type === "call" ? flowShare : 1;
+  }
+  if (positioning.model === "custom") {
+    const override = positioning.overrides.find(
+      (o) => o.type === opt.type && o.strike === opt.strike
+    );
+    return override?.customerLongFraction ?? classic;
+  }
+  return classic;
+};
+
+/**
+ * 모델 기준 딜러 부호로 GEX / DEX / VEX / CEX 재계산
+ * - 딜러 부호 = 1 - 2 × 고객 롱 비중 (+1 = 딜러 전량 롱, -1 = 전량 숏)
+ */
+export const applyDealerModel = (
+  options: ProcessedOption[],
+  spot: number,
+  positioning: DealerPositioning
+): ProcessedOption[] =>
+  options.map((opt) => {
+    const dealerSign = 1 - 2 * customerLongFraction(opt, positioning);
+    const oi = opt.openInterest || 0;
+    return {
+      ...opt,
+      dealerSign,
+      gex: dealerSign * opt.gamma * oi * 100 * spot * spot * 0.01,
+      dex: dealerSign * opt.delta * oi * 100 * spot,
+      vex: dealerSign * opt.vanna * oi * 100 * spot * 0.01,
+      cex: (dealerSign * opt.charm * oi * 100 * spot) / 365,
+    };
+  });
+
+/**
+ * 같은 옵션 집합을 모든 모델로 계산해 나란히 비교 (합산 GEX / DEX + 통합 Gamma Flip)
+ */
+export const compareDealerModels = (
+  options: ProcessedOption[],
+  spot: number,
+  time: number,
+  overrides: CustomerPositionOverride[],
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): DealerModelSummary[] =>
+  DEALER_MODELS.map((model) => {
+    const modeled = applyDealerModel(options, spot, { model, overrides });
+    const calls = modeled.filter((opt) => opt.type === "call");
+    const puts = modeled.filter((opt) => opt.type === "put");
+    const callGex = calls.reduce((acc, opt) => acc + opt.gex, 0);
+    const putGex = puts.reduce((acc, opt) => acc + opt.gex, 0);
+    const callDex = calls.reduce((acc, opt) => acc + opt.dex, 0);
+    const putDex = puts.reduce((acc, opt) => acc + opt.dex, 0);
+    const flip = findTrueGammaFlip(modeled, spot, time, config);
+    return {
+      model,
+      callGex,
+      putGex,
+      totalGex: callGex + putGex,
+      callDex,
+      putDex,
+      totalDex: callDex + putDex,
+      gammaFlip: flip.flip,
+      gammaFlipStatus: flip.status,
+    };
+  });
@@ -0,0 +1,118 @@
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from "./config.js";
+import {
+  findOIWalls,
+  findTrueGammaFlip,
+  type GammaFlipStatus,
+  type ProcessedOption,
+} from "./metrics.js";
+import { calculatePinLevels } from "./pinning.js";
+import { calculateIvSkew } from "./skew.js";
+
+/**
+ * 0DTE 장중 스냅샷 (호출 시점 현재가 기준 재계산 결과)
+ */
+export interface IntradayPoint {
+  timestamp: string; // ISO
+  spot: number;
+  callWall: number | null;
+  putWall: number | null;
+  gammaFlip: number | null;
+  gammaFlipStatus: GammaFlipStatus;
+  callGex: number;
+  putGex: number;
+  netGex: number;
+  atmIv: number | null;
+  maxPain: number | null;
+  pinStrike: number | null;
+  pinRisk: number;
+}
+
+export interface LevelShift {
+  fromOpen: number | null; // 세션 첫 기록 대비 변화
+  fromPrevious: number | null; // 직전 기록 대비 변화
+}
+
+export interface IntradayShifts {
+  spot: LevelShift;
+  callWall: LevelShift;
+  putWall: LevelShift;
+  gammaFlip: LevelShift;
+  netGex: LevelShift;
+}
+
+/**
+ * 현재가 기준 0DTE 레벨 재계산
+ * - options: 현재가로 processOption 을 다시 적용한 당일 만기 옵션 (GEX가 현재가 기준)
+ * - Max Pain은 ±moneyness 필터 후 체인 기준
+ */
+export const buildIntradayPoint = ({
+  calls,
+  puts,
+  spot,
+  timeToExpiration,
+  timestamp,
+  config = DEFAULT_ANALYSIS_CONFIG,
+}: {
+  calls: ProcessedOption[];
+  puts: ProcessedOption[];
+  spot: number;
+  timeToExpiration: number;
+  timestamp: Date;
+  config?: AnalysisConfig;
+}): IntradayPoint => {
+  const options = [...calls, ...puts];
+  const callGex = calls.reduce((acc, opt) => acc + opt.gex, 0);
+  const putGex = puts.reduce((acc, opt) => acc + opt.gex, 0);
+  const walls = findOIWalls(options, spot);
+  const flip = findTrueGammaFlip(options, spot, timeToExpiration, config);
+  const { atmIv } = calculateIvSkew({ calls, puts, spot, timeToExpiration, config });
+  const pin = calculatePinLevels({
+    chainCalls: calls,
+    chainPuts: puts,
+    calls,
+    puts,
+    spot,
+    atmIv,
+    timeToExpiration,
+  });
+
+  return {
+    timestamp: timestamp.toISOString(),
+    spot,
+    callWall: walls.callWall,
+    putWall: walls.putWall,
+    gammaFlip: flip.flip,
+    gammaFlipStatus: flip.status,
+    callGex,
+    putGex,
+    netGex: callGex + putGex,
+    atmIv,
+    maxPain: pin.maxPain,
+    pinStrike: pin.pinStrike,
+    pinRisk: pin.pinRisk,
+  };
+};
+
+const shiftOf = (
+  history: IntradayPoint[],
+  key: "spot" | "callWall" | "putWall" | "gammaFlip" | "netGex"
+): LevelShift => {
+  const current = history[history.length - 1]?.[key] ?? null;
+  const open = history[0]?.[key] ?? null;
+  const previous = history.length >= 2 ? history[history.length - 2][key] : null;
+  return {
+    fromOpen: current !== null && open !== null ? current - open : null,
+    fromPrevious: current !== null && previous !== null ? current - previous : null,
+  };
+};
+
+/**
+ * 세션 중 레벨 이동 (history 마지막 항목 = 현재)
+ */
+export const calculateIntradayShifts = (history: IntradayPoint[]): IntradayShifts => ({
+  spot: shiftOf(history, "spot"),
+  callWall: shiftOf(history, "callWall"),
+  putWall: shiftOf(history, "putWall"),
+  gammaFlip: shiftOf(history, "gammaFlip"),
+  netGex: shiftOf(history, "netGex"),
+});
@@ -1,11 +1,11 @@
 import { BlackScholes } from "@uqee/black-scholes";
-
-export const RISK_FREE_RATE = 0.043;
-export const DIVIDEND_YIELD = 0.006;
-export const VOLATILITY_TRIGGER_RATIO = 0.985;
-export const IV_CLAMP_MIN = 0.0001;
-export const IV_CLAMP_MAX = 5.0;
-export const SCALP_SD_MULTIPLIER = 0.4;
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from "./config.js";
+import {
+  dividendAdjustedSpot,
+  priceAmericanBinomial,
+  type DiscreteDividend,
+  type OptionGreeks,
+} from "./pricing.js";
 
 const blackScholes = new BlackScholes();
 
@@ -17,6 +17,8 @@ export interface OptionDataInput {
   change: number;
   percentChange?: number;
   volume?: number;
+  bid?: number;
+  ask?: number;
   expiration: Date;
 }
 
@@ -24,9 +26,90 @@ export interface ProcessedOption extends Omit<OptionDataInput, "expiration"> {
   type: "call" | "put";
   gamma: number;
   gex: number;
+  delta: number;
+  dex: number;
+  vanna: number;
+  charm: number;
+  vex: number;
+  cex: number;
+  dealerSign: number; // 딜러 포지션 부호 (+1 롱 ~ -1 숏, 기본 classic: 콜 +1 / 풋 -1)
+  midPrice: number | null; // 호가 중간값 (bid 0 / 호가 없음 / 역전 시 null)
+  spreadRatio: number | null; // (ask - bid) / mid
+  liquidityScore: number | null; // 0~1 (1 = 스프레드 0, 호가 없으면 null)
+  dividends: DiscreteDividend[]; // 만기 전 배당락 (없으면 연속 배당 수익률 사용)
+  riskFreeRate: number; // 만기별 무위험 금리 (금리 곡선 보간값, Spot-Scan 재계산에 재사용)
   expirationDate: Date;
 }
 
+export interface OptionQuoteQuality {
+  midPrice: number | null;
+  spreadRatio: number | null;
+  liquidityScore: number | null;
+}
+
+export type LiquidityExclusion = "zero_bid" | "wide_spread";
+
+export interface StrikeDex {
+  strike: number;
+  callDex: number;
+  putDex: number;
+  netDex: number;
+}
+
+export interface CharmRehedge {
+  sessionDate: string; // 다음 거래 세션 (YYYY-MM-DD)
+  days: number; // 다음 세션까지 경과 일수 (주말 포함)
+  dealerDeltaChange: number; // 시간 경과로 인한 딜러 델타 변화 ($)
+  hedgeNotional: number; // 델타 중립 유지에 필요한 기초자산 매매 ($, + 매수 / − 매도)
+  direction: "buy" | "sell";
+}
+
+export interface GexCurvePoint {
+  spot: number;
+  netGex: number;
+}
+
+/**
+ * Gamma Flip 탐색 결과
+ * - flip: 범위 내 부호 전환이 하나 이상일 때 현재가에 가장 가까운 지점
+ * - all_positive / all_negative: 탐색 범위 전체에서 Net GEX 부호가 같음 (Flip 없음)
+ */
+export type GammaFlipStatus = "flip" | "all_positive" | "all_negative" | "no_data";
+
+export interface GammaFlipCrossing {
+  spot: number;
+  // Spot 상승 방향 기준 Net GEX 부호 변화
+  direction: "negative_to_positive" | "positive_to_negative";
+}
+
+export interface GammaFlipResult {
+  status: GammaFlipStatus;
+  flip: number | null;
+  crossings: GammaFlipCrossing[];
+}
+
+export interface OIWalls {
+  callWall: number | null; // 현재가 이상 행사가 중 Call OI 최대
+  putWall: number | null; // 현재가 이하 행사가 중 Put OI 최대
+}
+
+export interface GexHeatmapCell {
+  callGex: number;
+  putGex: number;
+  netGex: number;
+  callOI: number;
+  putOI: number;
+}
+
+/**
+ * 행사가 × 만기 GEX 매트릭스 (cells[행사가 index][만기 index])
+ */
+export interface GexHeatmap {
+  expirations: string[];
+  strikes: number[];
+  cells: GexHeatmapCell[][];
+}
+
 export interface PriceProbability {
   up: number;
   down: number;
@@ -49,6 +132,104 @@ export const clamp = (value: number, min: number, max: number): number => {
   return Math.min(max, Math.max(min, value));
 };
 
+export const normalPdf = (x: number): number =>
+  Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+// Abramowitz-Stegun 26.2.17 근사 (오차 < 7.5e-8)
+export const normalCdf = (x: number): number => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly =
+    t *
+    (0.31938153 +
+      t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normalPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+};
+
+/**
+ * Black-Scholes Delta / Gamma (연속 배당 q 반영: Δ = e^{-qT}·N(d1), Γ = e^{-qT}·φ(d1) / (Sσ√T))
+ * - 이산 배당(escrowed)은 spot = S - PV(배당), dividendYield = 0 으로 호출
+ * - processOption / Spot-Scan / 스큐 델타가 모두 이 구현을 사용
+ */
+export const calculateDeltaGamma = ({
+  spot,
+  strike,
+  time,
+  sigma,
+  rate,
+  dividendYield,
+  type,
+}: {
+  spot: number;
+  strike: number;
+  time: number;
+  sigma: number;
+  rate: number;
+  dividendYield: number;
+  type: "call" | "put";
+}): { delta: number; gamma: number } => {
+  const t = Math.max(time, 0.0001);
+  const sqrtT = Math.sqrt(t);
+  const d1 =
+    (Math.log(spot / strike) + (rate - dividendYield + 0.5 * sigma * sigma) * t) /
+    (sigma * sqrtT);
+  const discount = Math.exp(-dividendYield * t);
+  const delta =
+    type === "call" ? discount * normalCdf(d1) : discount * (normalCdf(d1) - 1);
+  const gamma = (discount * normalPdf(d1)) / (spot * sigma * sqrtT);
+  return { delta: safeNum(delta, 0), gamma: safeNum(gamma, 0) };
+};
+
+/**
+ * Black-Scholes Delta (연속 배당 q 반영, 콜 0~1 / 풋 -1~0)
+ */
+export const calculateDelta = (
+  params: Parameters<typeof calculateDeltaGamma>[0]
+): number => calculateDeltaGamma(params).delta;
+
+/**
+ * 2차 그릭스 (Black-Scholes, 연속 배당 q 반영)
+ * - vanna: ∂Δ/∂σ (콜/풋 동일)
+ * - charm: 시간 경과에 따른 Δ 변화 (연 단위, −∂Δ/∂T)
+ */
+export const calculateVannaCharm = ({
+  spot,
+  strike,
+  time,
+  sigma,
+  rate,
+  dividendYield,
+  type,
+}: {
+  spot: number;
+  strike: number;
+  time: number;
+  sigma: number;
+  rate: number;
+  dividendYield: number;
+  type: "call" | "put";
+}): { vanna: number; charm: number } => {
+  const t = Math.max(time, 0.0001);
+  const sqrtT = Math.sqrt(t);
+  const d1 =
+    (Math.log(spot / strike) + (rate - dividendYield + 0.5 * sigma * sigma) * t) /
+    (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const discount = Math.exp(-dividendYield * t);
+  const pdf = normalPdf(d1);
+
+  const vanna = (-discount * pdf * d2) / sigma;
+  const decay =
+    (discount * pdf * (2 * (rate - dividendYield) * t - d2 * sigma * sqrtT)) /
+    (2 * t * sigma * sqrtT);
+  const charm =
+    type === "call"
+      ? dividendYield * discount * normalCdf(d1) - decay
+      : -dividendYield * discount * normalCdf(-d1) - decay;
+
+  return { vanna: safeNum(vanna, 0), charm: safeNum(charm, 0) };
+};
+
 export const calculateGammaAdjustedExpectedPrice = ({
   rangeMid,
   rangeHalf,
@@ -59,7 +240,7 @@ export const calculateGammaAdjustedExpectedPrice = ({
   rangeMid: number;
   rangeHalf: number;
   sentiment: number;
-  gammaFlip: number;
+  gammaFlip: number | null; // 범위 내 Flip 없으면 null (감마 편향 미적용)
   totalGex: number;
 }): number => {
   if (!isFinite(rangeHalf) || rangeHalf <= 0) {
@@ -67,7 +248,8 @@ export const calculateGammaAdjustedExpectedPrice = ({
   }
 
   const sentimentBias = (sentiment / 100) * 0.3;
-  const gammaBiasRaw = isFinite(gammaFlip)
+  const gammaBiasRaw =
+    gammaFlip !== null && isFinite(gammaFlip)
     ? clamp((gammaFlip - rangeMid) / rangeHalf, -1, 1)
     : 0;
   const gammaSign = totalGex >= 0 ? 1 : -1;
@@ -85,27 +267,24 @@ export const calculateImpliedVolatility = (
     type: "call" | "put";
     underlying: number;
     rate: number;
-  }
+  },
+  // 가격 모델 (기본: 유럽형 Black-Scholes)
+  priceAt: (sigma: number) => number = (sigma) =>
+    blackScholes.option({ ...params, sigma }).price
 ): number => {
   let sigma = 0.2;
   const maxIterations = 20;
   const precision = 0.0001;
 
   for (let i = 0; i < maxIterations; i++) {
-    const result = blackScholes.option({
-      ...params,
-      sigma,
-    });
+    const price = priceAt(sigma);
 
-    const diff = result.price - targetPrice;
+    const diff = price - targetPrice;
     if (Math.abs(diff) < precision) return sigma;
 
     const epsilon = 0.001;
-    const resultNext = blackScholes.option({
-      ...params,
-      sigma: sigma + epsilon,
-    });
-    const vega = (resultNext.price - result.price) / epsilon;
+    const priceNext = priceAt(sigma + epsilon);
+    const vega = (priceNext - price) / epsilon;
 
     if (Math.abs(vega) < 0.00001) break;
 
@@ -117,11 +296,151 @@ export const calculateImpliedVolatility = (
   return sigma;
 };
 
+/**
+ * 설정된 가격 모델로 가격 / Delta / Gamma 계산
+ * - black-scholes: 배당 반영 기초자산 입력
+ * - binomial: 미국형 CRR 이항 트리 (조기 행사 + 이산 배당)
+ */
+const priceOption = (
+  {
+    spot,
+    strike,
+    time,
+    sigma,
+    type,
+    rate,
+    dividends,
+  }: {
+    spot: number;
+    strike: number;
+    time: number;
+    sigma: number;
+    type: "call" | "put";
+    rate: number;
+    dividends: DiscreteDividend[];
+  },
+  config: AnalysisConfig
+): OptionGreeks => {
+  const t = Math.max(time, 0.0001);
+  if (config.pricingModel === "binomial") {
+    return priceAmericanBinomial({
+      spot,
+      strike,
+      time: t,
+      sigma,
+      rate,
+      dividendYield: config.dividendYield,
+      dividends,
+      type,
+    });
+  }
+  const result = blackScholes.option({
+    rate,
+    sigma,
+    strike,
+    time: t,
+    type,
+    underlying: dividendAdjustedSpot(
+      spot,
+      time,
+      rate,
+      config.dividendYield,
+      dividends
+    ),
+  });
+  // 라이브러리 그릭스는 S·e^{-qT} 기준이므로 e^{-qT} 캐리를 반영한 공통 구현 사용
+  const { delta, gamma } =
+    dividends.length > 0
+      ? calculateDeltaGamma({
+          spot: dividendAdjustedSpot(spot, time, rate, 0, dividends),
+          strike,
+          time: t,
+          sigma,
+          rate,
+          dividendYield: 0,
+          type,
+        })
+      : calculateDeltaGamma({
+          spot,
+          strike,
+          time: t,
+          sigma,
+          rate,
+          dividendYield: config.dividendYield,
+          type,
+        });
+  return { price: result.price, delta, gamma };
+};
+
+/**
+ * 호가 품질: 중간값 / 스프레드 비율 / 유동성 점수
+ * - 유동성 점수 = max(0, 1 - spreadRatio), bid 0 또는 호가 역전은 0
+ */
+export const assessOptionQuote = (option: {
+  bid?: number;
+  ask?: number;
+}): OptionQuoteQuality => {
+  const bid = Number(option.bid);
+  const ask = Number(option.ask);
+  if (option.bid == null || option.ask == null || !isFinite(bid) || !isFinite(ask)) {
+    return { midPrice: null, spreadRatio: null, liquidityScore: null };
+  }
+  if (bid <= 0 || ask < bid) {
+    return { midPrice: null, spreadRatio: null, liquidityScore: 0 };
+  }
+  const midPrice = (bid + ask) / 2;
+  const spreadRatio = (ask - bid) / midPrice;
+  return { midPrice, spreadRatio, liquidityScore: Math.max(0, 1 - spreadRatio) };
+};
+
+/**
+ * 설정 기준 유동성 제외 사유 (제외 대상이 아니면 null)
+ * - excludeZeroBid: bid가 0인 옵션 제외
+ * - maxSpreadRatio > 0: 스프레드 비율이 기준을 넘는 옵션 제외
+ */
+export const getLiquidityExclusion = (
+  option: ProcessedOption,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): LiquidityExclusion | null => {
+  if (config.excludeZeroBid && option.bid != null && Number(option.bid) <= 0) {
+    return "zero_bid";
+  }
+  if (
+    config.maxSpreadRatio > 0 &&
+    option.spreadRatio !== null &&
+    option.spreadRatio > config.maxSpreadRatio
+  ) {
+    return "wide_spread";
+  }
+  return null;
+};
+
+/**
+ * Wall / GEX 계산용 유동성 필터 (제외 건수 함께 반환)
+ */
+export const filterLiquidOptions = (
+  options: ProcessedOption[],
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): { options: ProcessedOption[]; zeroBid: number; wideSpread: number } => {
+  const kept: ProcessedOption[] = [];
+  let zeroBid = 0;
+  let wideSpread = 0;
+  for (const opt of options) {
+    const exclusion = getLiquidityExclusion(opt, config);
+    if (exclusion === "zero_bid") zeroBid += 1;
+    else if (exclusion === "wide_spread") wideSpread += 1;
+    else kept.push(opt);
+  }
+  return { options: kept, zeroBid, wideSpread };
+};
+
 export const processOption = (
   option: OptionDataInput,
   type: "call" | "put",
   spotPrice: number,
-  timeToExpiration: number
+  timeToExpiration: number,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG,
+  dividends: DiscreteDividend[] = []
 ): ProcessedOption => {
   const strike = Number(option.strike);
   const openInterest =
@@ -131,46 +450,79 @@ export const processOption = (
       ? Math.round(Number(option.volume) * 0.1)
       : 1;
 
-  const adjustedSpot = spotPrice * Math.exp(-DIVIDEND_YIELD * timeToExpiration);
+  // 이산 배당이 있으면 escrowed (S - PV(배당)), 없으면 연속 배당 수익률
+  const adjustedSpot = dividendAdjustedSpot(
+    spotPrice,
+    timeToExpiration,
+    config.riskFreeRate,
+    config.dividendYield,
+    dividends
+  );
   const ivRaw = option.impliedVolatility;
+  const quote = assessOptionQuote(option);
 
   let impliedVolatility: number;
   if (typeof ivRaw !== "number" || !isFinite(ivRaw) || ivRaw < 0.001) {
-    impliedVolatility = calculateImpliedVolatility(option.lastPrice, {
-      strike,
-      time: Math.max(timeToExpiration, 0.0001),
-      type,
-      underlying: adjustedSpot,
-      rate: RISK_FREE_RATE,
-    });
+    // 비유동 행사가의 lastPrice는 오래된 체결일 수 있어 호가 중간값 우선
+    impliedVolatility = calculateImpliedVolatility(
+      quote.midPrice ?? option.lastPrice,
+      {
+        strike,
+        time: Math.max(timeToExpiration, 0.0001),
+        type,
+        underlying: adjustedSpot,
+        rate: config.riskFreeRate,
+      },
+      (sigma) =>
+        priceOption(
+          {
+            spot: spotPrice,
+            strike,
+            time: timeToExpiration,
+            sigma,
+            type,
+            rate: config.riskFreeRate,
+            dividends,
+          },
+          config
+        ).price
+    );
   } else {
     impliedVolatility = ivRaw;
   }
 
   impliedVolatility = Math.max(
-    IV_CLAMP_MIN,
-    Math.min(IV_CLAMP_MAX, impliedVolatility)
+    config.ivClampMin,
+    Math.min(config.ivClampMax, impliedVolatility)
   );
 
   const greekSigma = Math.max(0.1, impliedVolatility);
 
   let gamma = 0;
+  let delta = 0;
   try {
-    const result = blackScholes.option({
-      rate: RISK_FREE_RATE,
-      sigma: greekSigma,
-      strike,
-      time: Math.max(timeToExpiration, 0.0001),
-      type,
-      underlying: adjustedSpot,
-    });
+    const result = priceOption(
+      {
+        spot: spotPrice,
+        strike,
+        time: timeToExpiration,
+        sigma: greekSigma,
+        type,
+        rate: config.riskFreeRate,
+        dividends,
+      },
+      config
+    );
     gamma = Math.abs(safeNum(result.gamma, 0));
+    delta = safeNum(result.delta, 0);
   } catch {
-    // gamma = 0
+    // gamma = 0, delta = 0
   }
 
+  // classic 딜러 포지셔닝 (다른 모델은 dealerPositioning.applyDealerModel 로 재계산)
+  const positionSign = type === "call" ? 1 : -1;
   const gammaExposure = safeNum(
-    (type === "call" ? 1 : -1) *
+    positionSign *
       gamma *
       openInterest *
       100 *
@@ -179,6 +531,34 @@ export const processOption = (
     0
   );
 
+  // ✅ Delta Exposure (DEX): 딜러 포지션 기준 (classic: 콜 롱 → +, 풋 숏 → −delta 이므로 +)
+  // DEX > 0 = 딜러 순 롱 델타 (기초자산 매도 헤지), < 0 = 순 숏 델타 (매수 헤지)
+  const deltaExposure = safeNum(
+    positionSign * delta * openInterest * 100 * spotPrice,
+    0
+  );
+
+  // ✅ Vanna / Charm Exposure: GEX와 같은 딜러 포지션 가정 (콜 +, 풋 −)
+  // VEX = IV 1%p 변화 시 딜러 델타 변화 ($), CEX = 하루 경과 시 딜러 델타 변화 ($)
+  // Vanna / Charm은 가격 모델과 무관하게 유럽형 해석식 (이산 배당은 escrowed 기초자산으로 반영)
+  const { vanna, charm } = calculateVannaCharm({
+    spot: dividends.length > 0 ? adjustedSpot : spotPrice,
+    strike,
+    time: timeToExpiration,
+    sigma: greekSigma,
+    rate: config.riskFreeRate,
+    dividendYield: dividends.length > 0 ? 0 : config.dividendYield,
+    type,
+  });
+  const vannaExposure = safeNum(
+    positionSign * vanna * openInterest * 100 * spotPrice * 0.01,
+    0
+  );
+  const charmExposure = safeNum(
+    (positionSign * charm * openInterest * 100 * spotPrice) / 365,
+    0
+  );
+
   return {
     ...option,
     strike,
@@ -187,36 +567,121 @@ export const processOption = (
     type,
     gamma,
     gex: gammaExposure,
+    delta,
+    dex: deltaExposure,
+    vanna,
+    charm,
+    vex: vannaExposure,
+    cex: charmExposure,
+    dealerSign: positionSign,
+    ...quote,
+    dividends,
+    riskFreeRate: config.riskFreeRate,
     expirationDate: option.expiration,
   };
 };
 
+export const aggregateDexByStrike = (options: ProcessedOption[]): StrikeDex[] => {
+  const byStrike = new Map<number, StrikeDex>();
+  for (const opt of options) {
+    const entry = byStrike.get(opt.strike) ?? {
+      strike: opt.strike,
+      callDex: 0,
+      putDex: 0,
+      netDex: 0,
+    };
+    if (opt.type === "call") entry.callDex += opt.dex;
+    else entry.putDex += opt.dex;
+    entry.netDex = entry.callDex + entry.putDex;
+    byStrike.set(opt.strike, entry);
+  }
+  return [...byStrike.values()].sort((a, b) => a.strike - b.strike);
+};
+
+export const buildGexHeatmap = (
+  series: { expiration: string; options: ProcessedOption[] }[]
+): GexHeatmap => {
+  const expirations = series.map((item) => item.expiration);
+  const strikes = [
+    ...new Set(series.flatMap((item) => item.options.map((opt) => opt.strike))),
+  ].sort((a, b) => a - b);
+  const strikeIndex = new Map(strikes.map((strike, idx) => [strike, idx]));
+
+  const cells: GexHeatmapCell[][] = strikes.map(() =>
+    expirations.map(() => ({ callGex: 0, putGex: 0, netGex: 0, callOI: 0, putOI: 0 }))
+  );
+  series.forEach((item, expIdx) => {
+    for (const opt of item.options) {
+      const idx = strikeIndex.get(opt.strike);
+      if (idx === undefined) continue;
+      const cell = cells[idx][expIdx];
+      if (opt.type === "call") {
+        cell.callGex += opt.gex;
+        cell.callOI += opt.openInterest || 0;
+      } else {
+        cell.putGex += opt.gex;
+        cell.putOI += opt.openInterest || 0;
+      }
+      cell.netGex = cell.callGex + cell.putGex;
+    }
+  });
+
+  return { expirations, strikes, cells };
+};
+
+/**
+ * Charm 기반 다음 세션 딜러 재헤지 규모
+ * - options: 다음 세션까지 만기가 남아 있는 옵션만 전달
+ */
+export const calculateCharmRehedge = (
+  options: ProcessedOption[],
+  sessionDate: string,
+  days: number
+): CharmRehedge => {
+  const dealerDeltaChange =
+    options.reduce((acc, opt) => acc + (opt.cex || 0), 0) * days;
+  const hedgeNotional = -dealerDeltaChange;
+  return {
+    sessionDate,
+    days,
+    dealerDeltaChange,
+    hedgeNotional,
+    direction: hedgeNotional >= 0 ? "buy" : "sell",
+  };
+};
+
 export const calculateNetGexAtSpot = (
   options: ProcessedOption[],
   spot: number,
-  time: number
+  time: number,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
 ): number => {
+  // 가상 Spot 스캔은 항상 Black-Scholes (이항 트리는 현재가 기준 processOption에서만 계약당 1회)
+  const scanConfig: AnalysisConfig = { ...config, pricingModel: "black-scholes" };
   return options.reduce((acc, opt) => {
     try {
-      const adjustedSpot = spot * Math.exp(-DIVIDEND_YIELD * time);
       const ivRaw = opt.impliedVolatility;
       const sigma =
         typeof ivRaw === "number" && isFinite(ivRaw)
           ? Math.max(0.1, ivRaw)
           : 0.2;
 
-      const result = blackScholes.option({
-        rate: RISK_FREE_RATE,
-        sigma: sigma,
-        strike: opt.strike,
-        time: Math.max(time, 0.0001),
-        type: opt.type,
-        underlying: adjustedSpot,
-      });
+      const result = priceOption(
+        {
+          spot,
+          strike: opt.strike,
+          time,
+          sigma,
+          type: opt.type,
+          rate: opt.riskFreeRate,
+          dividends: opt.dividends,
+        },
+        scanConfig
+      );
 
       const gamma = Math.abs(safeNum(result.gamma, 0));
       const gex =
-        (opt.type === "call" ? 1 : -1) *
+        opt.dealerSign *
         gamma *
         (opt.openInterest || 0) *
         100 *
@@ -229,39 +694,147 @@ export const calculateNetGexAtSpot = (
   }, 0);
 };
 
-export const findTrueGammaFlip = (
-  options: ProcessedOption[],
+/**
+ * 현재가 기준 ±range 구간을 step 간격으로 나눈 가상 Spot 그리드 (비율 단위)
+ */
+export const buildSpotGrid = (
   currentSpot: number,
-  time: number
-): number => {
-  if (options.length === 0) return currentSpot;
+  range: number,
+  step: number
+): number[] => {
+  const steps = Math.round(range / step);
+  return Array.from(
+    { length: steps * 2 + 1 },
+    (_, idx) => Math.round(currentSpot * (1 + (idx - steps) * step) * 1e4) / 1e4
+  );
+};
+
+export const calculateGexCurve = (
+  options: ProcessedOption[],
+  grid: number[],
+  time: number,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): GexCurvePoint[] =>
+  grid.map((spot) => ({
+    spot,
+    netGex: calculateNetGexAtSpot(options, spot, time, config),
+  }));
 
-  const scanRange = 0.1;
-  let low = currentSpot * (1 - scanRange);
-  let high = currentSpot * (1 + scanRange);
+/**
+ * 같은 그리드 위의 만기별 곡선을 합산 (전 만기 통합 Gamma Profile)
+ */
+export const sumGexCurves = (curves: GexCurvePoint[][]): GexCurvePoint[] => {
+  if (curves.length === 0) return [];
+  return curves[0].map((point, idx) => ({
+    spot: point.spot,
+    netGex: curves.reduce((acc, curve) => acc + (curve[idx]?.netGex ?? 0), 0),
+  }));
+};
+
+/**
+ * 곡선의 모든 부호 전환 지점을 찾아 Flip 상태로 정리
+ * - refine 미지정 시 인접 그리드 사이 선형 보간
+ */
+export const analyzeGexCurve = (
+  curve: GexCurvePoint[],
+  currentSpot: number,
+  refine?: (low: GexCurvePoint, high: GexCurvePoint) => number
+): GammaFlipResult => {
+  const values = curve.filter((point) => isFinite(point.netGex));
+  if (values.length === 0 || values.every((point) => point.netGex === 0)) {
+    return { status: "no_data", flip: null, crossings: [] };
+  }
 
-  const gexLow = calculateNetGexAtSpot(options, low, time);
-  const gexHigh = calculateNetGexAtSpot(options, high, time);
+  const crossings: GammaFlipCrossing[] = [];
+  for (let i = 1; i < values.length; i++) {
+    const prev = values[i - 1];
+    const next = values[i];
+    const prevPositive = prev.netGex >= 0;
+    if (prevPositive === next.netGex >= 0) continue;
+    const spot = refine
+      ? refine(prev, next)
+      : prev.spot +
+        ((next.spot - prev.spot) * -prev.netGex) / (next.netGex - prev.netGex);
+    crossings.push({
+      spot,
+      direction: prevPositive ? "positive_to_negative" : "negative_to_positive",
+    });
+  }
 
-  if (!isFinite(gexLow) || !isFinite(gexHigh) || gexLow * gexHigh > 0) {
-    // No flip within scan range: fall back to current spot for stability.
-    return currentSpot;
+  if (crossings.length === 0) {
+    return {
+      status: values[0].netGex >= 0 ? "all_positive" : "all_negative",
+      flip: null,
+      crossings,
+    };
   }
+  const nearest = crossings.reduce((p, c) =>
+    Math.abs(c.spot - currentSpot) < Math.abs(p.spot - currentSpot) ? c : p
+  );
+  return { status: "flip", flip: nearest.spot, crossings };
+};
 
-  for (let i = 0; i < 15; i++) {
-    const mid = (low + high) / 2;
-    const gexMid = calculateNetGexAtSpot(options, mid, time);
+/**
+ * 진짜 Gamma Flip (Spot-Scan 방식)
+ * - ±10% 범위를 0.5% 간격으로 스캔해 모든 부호 전환 구간을 찾고, 구간별 이진 탐색으로 정밀화
+ * - 전환이 없으면 현재가로 대체하지 않고 all_positive / all_negative 상태로 반환
+ */
+export const findTrueGammaFlip = (
+  options: ProcessedOption[],
+  currentSpot: number,
+  time: number,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): GammaFlipResult => {
+  if (options.length === 0) {
+    return { status: "no_data", flip: null, crossings: [] };
+  }
 
-    if (Math.abs(gexMid) < 0.1) return mid;
+  const curve = calculateGexCurve(
+    options,
+    buildSpotGrid(currentSpot, 0.1, 0.005),
+    time,
+    config
+  );
 
-    if (gexLow * gexMid <= 0) {
-      high = mid;
-    } else {
-      low = mid;
+  return analyzeGexCurve(curve, currentSpot, (lowPoint, highPoint) => {
+    let low = lowPoint.spot;
+    let high = highPoint.spot;
+    const lowPositive = lowPoint.netGex >= 0;
+    for (let i = 0; i < 15; i++) {
+      const mid = (low + high) / 2;
+      const gexMid = calculateNetGexAtSpot(options, mid, time, config);
+      if (Math.abs(gexMid) < 0.1) return mid;
+      if (gexMid >= 0 === lowPositive) {
+        low = mid;
+      } else {
+        high = mid;
+      }
     }
-  }
+    return (low + high) / 2;
+  });
+};
 
-  return (low + high) / 2;
+/**
+ * 행사가별 OI 합산 기준 Call/Put Wall (여러 만기 합산에도 사용)
+ */
+export const findOIWalls = (
+  options: ProcessedOption[],
+  currentSpot: number
+): OIWalls => {
+  const callOI = new Map<number, number>();
+  const putOI = new Map<number, number>();
+  for (const opt of options) {
+    const target = opt.type === "call" ? callOI : putOI;
+    target.set(opt.strike, (target.get(opt.strike) ?? 0) + (opt.openInterest || 0));
+  }
+  const pickMax = (entries: [number, number][]) =>
+    entries.length > 0
+      ? entries.reduce((p, c) => (c[1] > p[1] ? c : p))[0]
+      : null;
+  return {
+    callWall: pickMax([...callOI].filter(([strike]) => strike >= currentSpot)),
+    putWall: pickMax([...putOI].filter(([strike]) => strike <= currentSpot)),
+  };
 };
 
 export const calculateSentiment = (callGex: number, putGex: number): number => {
@@ -335,11 +908,13 @@ export const calculateExpectedMoveRange = ({
   calls,
   puts,
   timeToExpiration,
+  config = DEFAULT_ANALYSIS_CONFIG,
 }: {
   currentPrice: number;
   calls: ProcessedOption[];
   puts: ProcessedOption[];
   timeToExpiration: number;
+  config?: AnalysisConfig;
 }): { expectedUpper: number; expectedLower: number; avgIv: number } => {
   const nearAtmOptions = [...calls, ...puts].filter(
     (opt) => Math.abs(opt.strike - currentPrice) / currentPrice < 0.05
@@ -354,7 +929,7 @@ export const calculateExpectedMoveRange = ({
     currentPrice *
     avgIv *
     Math.sqrt(Math.max(timeToExpiration, 1 / 365)) *
-    SCALP_SD_MULTIPLIER;
+    config.scalpSdMultiplier;
 
   return {
     expectedUpper: currentPrice + expectedMove,
@@ -363,6 +938,78 @@ export const calculateExpectedMoveRange = ({
   };
 };
 
+export interface StraddleExpectedMove {
+  strike: number; // 현재가에 가장 가까운 행사가
+  straddlePrice: number; // ATM 콜 + 풋 (현재가 위치로 보간)
+  expectedMove: number; // 시장이 가격에 반영한 만기까지의 기대 변동폭
+  upper: number;
+  lower: number;
+}
+
+// 호가가 유효하면 중간값, 아니면 최근 체결가
+const optionPremium = (opt: ProcessedOption): number | null => {
+  if (opt.midPrice !== null) return opt.midPrice;
+  const last = Number(opt.lastPrice);
+  return last > 0 ? last : null;
+};
+
+/**
+ * ATM 스트래들 가격 기반 기대 변동폭
+ * - 같은 행사가의 콜 + 풋 가격을 행사가별로 구하고, 현재가를 감싸는 두 행사가 사이에서 선형 보간
+ * - SD 배수(scalpSdMultiplier) 없이 시장 가격 그대로 사용 → 모델 밴드와 비교용
+ */
+export const calculateStraddleExpectedMove = ({
+  currentPrice,
+  calls,
+  puts,
+}: {
+  currentPrice: number;
+  calls: ProcessedOption[];
+  puts: ProcessedOption[];
+}): StraddleExpectedMove | null => {
+  const putPremiums = new Map<number, number>();
+  for (const put of puts) {
+    const premium = optionPremium(put);
+    if (premium !== null) putPremiums.set(put.strike, premium);
+  }
+  const straddles: { strike: number; price: number }[] = [];
+  for (const call of calls) {
+    const callPremium = optionPremium(call);
+    const putPremium = putPremiums.get(call.strike);
+    if (callPremium !== null && putPremium !== undefined) {
+      straddles.push({ strike: call.strike, price: callPremium + putPremium });
+    }
+  }
+  if (straddles.length === 0) return null;
+  straddles.sort((a, b) => a.strike - b.strike);
+
+  const nearest = straddles.reduce((prev, cur) =>
+    Math.abs(cur.strike - currentPrice) < Math.abs(prev.strike - currentPrice)
+      ? cur
+      : prev
+  );
+  let straddlePrice = nearest.price;
+  for (let i = 1; i < straddles.length; i++) {
+    const low = straddles[i - 1];
+    const high = straddles[i];
+    if (currentPrice >= low.strike && currentPrice <= high.strike) {
+      straddlePrice =
+        low.price +
+        ((high.price - low.price) * (currentPrice - low.strike)) /
+          (high.strike - low.strike);
+      break;
+    }
+  }
+
+  return {
+    strike: nearest.strike,
+    straddlePrice,
+    expectedMove: straddlePrice,
+    upper: currentPrice + straddlePrice,
+    lower: Math.max(currentPrice - straddlePrice, 0),
+  };
+};
+
 export const generateRecommendations = (
   support: number,
   resistance: number,
@@ -0,0 +1,149 @@
+import type { OptionChainSnapshot, SnapshotArchive } from "../data/snapshotArchive.js";
+
+export type OIChangeUnavailableReason =
+  | "archive_disabled"
+  | "no_prior_snapshot"
+  | "expiration_not_in_prior_snapshot";
+
+export interface OIChange {
+  callWallOIChange: number | null;
+  putWallOIChange: number | null;
+  totalCallOIChange: number | null;
+  totalPutOIChange: number | null;
+  previousSessionDate: string | null;
+  reason: OIChangeUnavailableReason | null;
+}
+
+export interface StrikeOIChange {
+  previousOpenInterest: number | null;
+  oiChange: number | null;
+}
+
+export interface PriorSession {
+  sessionDate: string;
+  byExpiration: Map<string, OptionChainSnapshot>;
+}
+
+type RawOption = { strike: number | string; openInterest?: number | string };
+
+const rawOI = (opt: RawOption) => Number(opt.openInterest) || 0;
+
+const toStrikeMap = (options: RawOption[]) =>
+  new Map(options.map((opt) => [Number(opt.strike), rawOI(opt)]));
+
+const percentChange = (current: number, previous: number | null | undefined) =>
+  previous !== null && previous !== undefined && previous > 0
+    ? ((current - previous) / previous) * 100
+    : null;
+
+export const unavailableOIChange = (
+  reason: OIChangeUnavailableReason,
+  previousSessionDate: string | null = null
+): OIChange => ({
+  callWallOIChange: null,
+  putWallOIChange: null,
+  totalCallOIChange: null,
+  totalPutOIChange: null,
+  previousSessionDate,
+  reason,
+});
+
+/**
+ * 오늘(sessionDate) 이전 가장 최근 거래일의 아카이브 스냅샷 로드
+ */
+export const loadPriorSession = async (
+  archive: SnapshotArchive,
+  symbol: string,
+  sessionDate: string
+): Promise<PriorSession | null> => {
+  const sessions = await archive.listSessions(symbol);
+  const previous = sessions.filter((s) => s < sessionDate).pop();
+  if (!previous) return null;
+  const snapshots = await archive.loadSession(symbol, previous);
+  if (snapshots.length === 0) return null;
+  return {
+    sessionDate: previous,
+    byExpiration: new Map(snapshots.map((s) => [s.expirationDate, s])),
+  };
+};
+
+/**
+ * 동일 만기/행사가 기준 전 거래일 대비 OI 변화 계산
+ * - Wall 변화율은 현재 Wall 행사가의 전일 OI와 비교
+ * - 합계 변화율은 동일 행사가 집합(strikeFilter)에 대해 원본 OI로 비교
+ */
+export const calculateOIChange = ({
+  priorSession,
+  expirationDate,
+  calls,
+  puts,
+  callWallStrike,
+  putWallStrike,
+  strikeFilter,
+}: {
+  priorSession: PriorSession;
+  expirationDate: string;
+  calls: RawOption[];
+  puts: RawOption[];
+  callWallStrike: number | null;
+  putWallStrike: number | null;
+  strikeFilter: (strike: number) => boolean;
+}): {
+  oiChange: OIChange;
+  strikeChange: (type: "call" | "put", strike: number) => StrikeOIChange;
+} => {
+  const prior = priorSession.byExpiration.get(expirationDate);
+  if (!prior) {
+    return {
+      oiChange: unavailableOIChange(
+        "expiration_not_in_prior_snapshot",
+        priorSession.sessionDate
+      ),
+      strikeChange: () => ({ previousOpenInterest: null, oiChange: null }),
+    };
+  }
+
+  const currentCalls = toStrikeMap(calls);
+  const currentPuts = toStrikeMap(puts);
+  const priorCalls = toStrikeMap(prior.calls);
+  const priorPuts = toStrikeMap(prior.puts);
+
+  const sumFiltered = (map: Map<number, number>) =>
+    Array.from(map.entries())
+      .filter(([strike]) => strikeFilter(strike))
+      .reduce((acc, [, oi]) => acc + oi, 0);
+
+  const wallChange = (
+    current: Map<number, number>,
+    previous: Map<number, number>,
+    strike: number | null
+  ) =>
+    strike === null
+      ? null
+      : percentChange(current.get(strike) ?? 0, previous.get(strike));
+
+  return {
+    oiChange: {
+      callWallOIChange: wallChange(currentCalls, priorCalls, callWallStrike),
+      putWallOIChange: wallChange(currentPuts, priorPuts, putWallStrike),
+      totalCallOIChange: percentChange(
+        sumFiltered(currentCalls),
+        sumFiltered(priorCalls)
+      ),
+      totalPutOIChange: percentChange(
+        sumFiltered(currentPuts),
+        sumFiltered(priorPuts)
+      ),
+      previousSessionDate: priorSession.sessionDate,
+      reason: null,
+    },
+    strikeChange: (type, strike) => {
+      const previous = (type === "call" ? priorCalls : priorPuts).get(strike);
+      if (previous === undefined) {
+        return { previousOpenInterest: null, oiChange: null };
+      }
+      const current = (type === "call" ? currentCalls : currentPuts).get(strike) ?? 0;
+      return { previousOpenInterest: previous, oiChange: current - previous };
+    },
+  };
+};
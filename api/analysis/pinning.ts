@@ -0,0 +1,119 @@
+export interface OpenInterestInput {
+  strike: number;
+  openInterest?: number;
+}
+
+export interface PinLevels {
+  maxPain: number | null; // 옵션 매수자 내재가치 합이 최소가 되는 행사가
+  oiCentroid: number | null; // 행사가 OI 가중 평균 (콜 + 풋)
+  pinStrike: number | null; // 현재가 ±1 SD 내 OI 최대 행사가 (핀 후보)
+  pinRisk: number; // 0~100, 만기 핀 고정 가능성
+}
+
+// OI가 밴드 내 행사가 평균의 이 배수 이상이면 집중도 최대로 간주
+const CONCENTRATION_FULL_RATIO = 3;
+
+const oiOf = (opt: OpenInterestInput) => Number(opt.openInterest) || 0;
+
+/**
+ * Max Pain: 만기 가격이 행사가 K일 때 콜·풋 매수자 내재가치 합이 최소가 되는 K
+ */
+export const calculateMaxPain = (
+  calls: OpenInterestInput[],
+  puts: OpenInterestInput[]
+): number | null => {
+  const strikes = [
+    ...new Set([...calls, ...puts].map((opt) => Number(opt.strike))),
+  ].sort((a, b) => a - b);
+  if (strikes.length === 0) return null;
+
+  let best: { price: number; total: number } | null = null;
+  for (const price of strikes) {
+    const callPain = calls.reduce(
+      (acc, opt) => acc + Math.max(0, price - Number(opt.strike)) * oiOf(opt),
+      0
+    );
+    const putPain = puts.reduce(
+      (acc, opt) => acc + Math.max(0, Number(opt.strike) - price) * oiOf(opt),
+      0
+    );
+    const total = callPain + putPain;
+    if (!best || total < best.total) best = { price, total };
+  }
+  return best?.price ?? null;
+};
+
+/**
+ * 만기별 핀 레벨
+ * - maxPain: 전체 체인 기준 (chainCalls / chainPuts)
+ * - oiCentroid / pinStrike / pinRisk: ±moneyness 필터 후 옵션 기준 (calls / puts)
+ * - pinRisk = 100 × 근접도 × 집중도 × 시간 가중
+ *   근접도 = max(0, 1 - |현재가 - pinStrike| / 1 SD), 1 SD = 현재가 × ATM IV × √T
+ *   집중도 = min(1, pinStrike OI / (밴드 내 행사가 평균 OI × 3))
+ *   시간 가중 = 1 / √(1 + 잔존 일수) (0DTE ≈ 1, 만기가 멀수록 감소)
+ */
+export const calculatePinLevels = ({
+  chainCalls,
+  chainPuts,
+  calls,
+  puts,
+  spot,
+  atmIv,
+  timeToExpiration,
+}: {
+  chainCalls: OpenInterestInput[];
+  chainPuts: OpenInterestInput[];
+  calls: OpenInterestInput[];
+  puts: OpenInterestInput[];
+  spot: number;
+  atmIv: number | null;
+  timeToExpiration: number;
+}): PinLevels => {
+  const maxPain = calculateMaxPain(chainCalls, chainPuts);
+
+  const oiByStrike = new Map<number, number>();
+  for (const opt of [...calls, ...puts]) {
+    const strike = Number(opt.strike);
+    oiByStrike.set(strike, (oiByStrike.get(strike) ?? 0) + oiOf(opt));
+  }
+  let totalOi = 0;
+  let weighted = 0;
+  for (const [strike, oi] of oiByStrike) {
+    totalOi += oi;
+    weighted += strike * oi;
+  }
+  const oiCentroid = totalOi > 0 ? weighted / totalOi : null;
+
+  const sdMove =
+    atmIv !== null && atmIv > 0 && spot > 0
+      ? spot * atmIv * Math.sqrt(Math.max(timeToExpiration, 1 / (365 * 24)))
+      : null;
+  if (sdMove === null) {
+    return { maxPain, oiCentroid, pinStrike: null, pinRisk: 0 };
+  }
+
+  const band = [...oiByStrike.entries()].filter(
+    ([strike]) => Math.abs(strike - spot) <= sdMove
+  );
+  const bandOi = band.reduce((acc, [, oi]) => acc + oi, 0);
+  if (band.length === 0 || bandOi <= 0) {
+    return { maxPain, oiCentroid, pinStrike: null, pinRisk: 0 };
+  }
+
+  const [pinStrike, pinOi] = band.reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best
+  );
+  const proximity = Math.max(0, 1 - Math.abs(spot - pinStrike) / sdMove);
+  const concentration = Math.min(
+    1,
+    pinOi / ((bandOi / band.length) * CONCENTRATION_FULL_RATIO)
+  );
+  const timeWeight = 1 / Math.sqrt(1 + timeToExpiration * 365);
+
+  return {
+    maxPain,
+    oiCentroid,
+    pinStrike,
+    pinRisk: Math.round(100 * proximity * concentration * timeWeight),
+  };
+};
@@ -0,0 +1,187 @@
+import { existsSync, readFileSync } from "node:fs";
+
+// 이항 트리 단계 수 (Spot-Scan 반복 호출을 고려한 정확도 / 속도 절충)
+const BINOMIAL_STEPS = 60;
+
+export interface DividendEvent {
+  exDate: string; // YYYY-MM-DD
+  amount: number; // 주당 배당금 ($)
+}
+
+export type DividendSchedule = Record<string, DividendEvent[]>;
+
+export interface DiscreteDividend {
+  time: number; // 현재 시점부터 배당락까지 (년)
+  amount: number;
+}
+
+export interface OptionGreeks {
+  price: number;
+  delta: number;
+  gamma: number;
+}
+
+export const DEFAULT_DIVIDEND_SCHEDULE_FILE = "dividends.json";
+
+/**
+ * 종목별 배당락 일정 로드
+ * - DIVIDEND_SCHEDULE_FILE 지정 시 해당 파일 (없으면 에러)
+ * - 미지정 시 dividends.json 이 있으면 사용, 없으면 빈 일정 (연속 배당 수익률 사용)
+ */
+export const loadDividendSchedule = (
+  env: NodeJS.ProcessEnv = process.env
+): DividendSchedule => {
+  const filePath = env.DIVIDEND_SCHEDULE_FILE || DEFAULT_DIVIDEND_SCHEDULE_FILE;
+  if (!env.DIVIDEND_SCHEDULE_FILE && !existsSync(filePath)) return {};
+
+  const parsed = JSON.parse(readFileSync(filePath, "utf8")) as unknown;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Dividend schedule must be an object keyed by symbol.");
+  }
+  const schedule: DividendSchedule = {};
+  for (const [symbol, events] of Object.entries(parsed)) {
+    if (!Array.isArray(events)) {
+      throw new Error(`Dividend schedule for ${symbol} must be an array.`);
+    }
+    schedule[symbol.toUpperCase()] = events.map((event) => {
+      const { exDate, amount } = (event ?? {}) as Partial<DividendEvent>;
+      if (typeof exDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(exDate)) {
+        throw new Error(`Dividend schedule ${symbol} exDate must be YYYY-MM-DD.`);
+      }
+      if (typeof amount !== "number" || !(amount > 0)) {
+        throw new Error(`Dividend schedule ${symbol} amount must be positive.`);
+      }
+      return { exDate, amount };
+    });
+  }
+  return schedule;
+};
+
+/**
+ * 만기 전 배당락만 남긴 현재가 기준 (시간, 금액) 목록
+ * - yearsUntil: 배당락일 → 현재부터의 연 단위 시간 변환 (호출 측 시간대 기준)
+ */
+export const upcomingDividends = (
+  events: DividendEvent[] | undefined,
+  yearsUntil: (exDate: string) => number,
+  timeToExpiration: number
+): DiscreteDividend[] =>
+  (events ?? [])
+    .map((event) => ({ time: yearsUntil(event.exDate), amount: event.amount }))
+    .filter((d) => d.time > 0 && d.time <= timeToExpiration)
+    .sort((a, b) => a.time - b.time);
+
+/**
+ * 시점 tau 이후 ~ 만기 이전 배당의 tau 시점 현재가치
+ */
+const dividendPv = (
+  dividends: DiscreteDividend[],
+  tau: number,
+  time: number,
+  rate: number
+): number =>
+  dividends.reduce(
+    (acc, d) =>
+      d.time > tau && d.time <= time
+        ? acc + d.amount * Math.exp(-rate * (d.time - tau))
+        : acc,
+    0
+  );
+
+/**
+ * 배당 반영 기초자산 (유럽형 가격 / 그릭스 입력용)
+ * - 이산 배당이 있으면 escrowed: S - PV(만기 전 배당)
+ * - 없으면 연속 배당 수익률: S · e^{-qT}
+ */
+export const dividendAdjustedSpot = (
+  spot: number,
+  time: number,
+  rate: number,
+  dividendYield: number,
+  dividends: DiscreteDividend[]
+): number =>
+  dividends.length > 0
+    ? Math.max(spot - dividendPv(dividends, 0, time, rate), spot * 0.01)
+    : spot * Math.exp(-dividendYield * time);
+
+/**
+ * 미국형 옵션 CRR 이항 트리 (escrowed 이산 배당 모델)
+ * - 트리는 S - PV(배당)으로 구성하고, 각 노드의 행사 가치는 남은 배당 PV를 더한 실제 주가로 계산
+ * - 이산 배당이 없을 때만 연속 배당 수익률을 드리프트에 반영
+ * - Delta / Gamma는 1·2단계 노드 차분 (추가 트리 없이 계산)
+ */
+export const priceAmericanBinomial = ({
+  spot,
+  strike,
+  time,
+  sigma,
+  rate,
+  dividendYield,
+  dividends,
+  type,
+  steps = BINOMIAL_STEPS,
+}: {
+  spot: number;
+  strike: number;
+  time: number;
+  sigma: number;
+  rate: number;
+  dividendYield: number;
+  dividends: DiscreteDividend[];
+  type: "call" | "put";
+  steps?: number;
+}): OptionGreeks => {
+  const t = Math.max(time, 0.000001);
+  const q = dividends.length > 0 ? 0 : dividendYield;
+  const base = dividendAdjustedSpot(spot, t, rate, 0, dividends);
+  const dt = t / steps;
+  const up = Math.exp(sigma * Math.sqrt(dt));
+  const down = 1 / up;
+  const prob = Math.min(
+    Math.max((Math.exp((rate - q) * dt) - down) / (up - down), 0),
+    1
+  );
+  const discount = Math.exp(-rate * dt);
+  const payoff = (price: number) =>
+    Math.max(type === "call" ? price - strike : strike - price, 0);
+
+  const values = new Float64Array(steps + 1);
+  let nodePrice = base * Math.pow(down, steps);
+  const ratio = up / down;
+  for (let j = 0; j <= steps; j++) {
+    values[j] = payoff(nodePrice);
+    nodePrice *= ratio;
+  }
+
+  const level: { prices: number[]; values: number[] }[] = [];
+  for (let i = steps - 1; i >= 0; i--) {
+    const pv = dividendPv(dividends, i * dt, t, rate);
+    nodePrice = base * Math.pow(down, i);
+    for (let j = 0; j <= i; j++) {
+      const continuation =
+        discount * (prob * values[j + 1] + (1 - prob) * values[j]);
+      values[j] = Math.max(continuation, payoff(nodePrice + pv));
+      nodePrice *= ratio;
+    }
+    if (i <= 2) {
+      const prices: number[] = [];
+      for (let j = 0; j <= i; j++) {
+        prices.push(base * Math.pow(down, i - j) * Math.pow(up, j) + pv);
+      }
+      level[i] = { prices, values: Array.from(values.subarray(0, i + 1)) };
+    }
+  }
+
+  const price = values[0];
+  if (steps < 2) return { price, delta: 0, gamma: 0 };
+  const [sDown, sUp] = level[1].prices;
+  const [vDown, vUp] = level[1].values;
+  const delta = (vUp - vDown) / (sUp - sDown);
+  const [sDD, sUD, sUU] = level[2].prices;
+  const [vDD, vUD, vUU] = level[2].values;
+  const gamma =
+    ((vUU - vUD) / (sUU - sUD) - (vUD - vDD) / (sUD - sDD)) /
+    (0.5 * (sUU - sDD));
+
+  return { price, delta, gamma };
+};
@@ -0,0 +1,90 @@
+import { existsSync, readFileSync } from "node:fs";
+
+export interface RateCurvePoint {
+  days: number; // 잔존 일수 (달력 기준)
+  rate: number; // 연속 복리 연율 (0.043 = 4.3%)
+}
+
+export type RateCurveSource = "file" | "irx" | "constant";
+
+export interface RateCurve {
+  source: RateCurveSource;
+  points: RateCurvePoint[]; // days 오름차순
+}
+
+export const DEFAULT_RATE_CURVE_FILE = "rate-curve.json";
+
+// ^IRX: 13주(91일) T-Bill 할인수익률 (%)
+const IRX_DAYS = 91;
+
+const sortPoints = (points: RateCurvePoint[]) =>
+  [...points].sort((a, b) => a.days - b.days);
+
+/**
+ * 금리 곡선 파일 로드 ([{ "days": 30, "rate": 0.043 }, ...])
+ * - RATE_CURVE_FILE 지정 시 해당 파일 (없으면 에러)
+ * - 미지정 시 rate-curve.json 이 있으면 사용, 없으면 null (^IRX / 상수 금리로 대체)
+ */
+export const loadRateCurve = (
+  env: NodeJS.ProcessEnv = process.env
+): RateCurve | null => {
+  const filePath = env.RATE_CURVE_FILE || DEFAULT_RATE_CURVE_FILE;
+  if (!env.RATE_CURVE_FILE && !existsSync(filePath)) return null;
+
+  const parsed = JSON.parse(readFileSync(filePath, "utf8")) as unknown;
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("Rate curve must be a non-empty array of { days, rate }.");
+  }
+  const points = parsed.map((entry) => {
+    const { days, rate } = (entry ?? {}) as Partial<RateCurvePoint>;
+    if (typeof days !== "number" || !(days >= 0)) {
+      throw new Error("Rate curve days must be a non-negative number.");
+    }
+    if (typeof rate !== "number" || !isFinite(rate)) {
+      throw new Error("Rate curve rate must be a finite number.");
+    }
+    return { days, rate };
+  });
+  return { source: "file", points: sortPoints(points) };
+};
+
+/**
+ * ^IRX 시세 → 91일 단일 점 곡선 (할인수익률을 연속 복리로 변환, 전 구간 flat)
+ * - r = -ln(1 - d × 91/360) / (91/365)
+ */
+export const rateCurveFromIrx = (irx: number | null | undefined): RateCurve | null => {
+  if (typeof irx !== "number" || !(irx > 0) || irx >= 100) return null;
+  const price = 1 - (irx / 100) * (IRX_DAYS / 360);
+  return {
+    source: "irx",
+    points: [{ days: IRX_DAYS, rate: -Math.log(price) / (IRX_DAYS / 365) }],
+  };
+};
+
+export const constantRateCurve = (rate: number): RateCurve => ({
+  source: "constant",
+  points: [{ days: 0, rate }],
+});
+
+/**
+ * 잔존 기간(년) 기준 금리 보간 (일수 선형 보간, 양 끝 밖은 가장 가까운 점 flat)
+ */
+export const interpolateRate = (
+  curve: RateCurve,
+  timeToExpiration: number
+): number => {
+  const { points } = curve;
+  const days = timeToExpiration * 365;
+  if (days <= points[0].days) return points[0].rate;
+  const last = points[points.length - 1];
+  if (days >= last.days) return last.rate;
+
+  for (let i = 1; i < points.length; i++) {
+    const low = points[i - 1];
+    const high = points[i];
+    if (days > high.days) continue;
+    if (high.days === low.days) return high.rate;
+    return low.rate + ((high.rate - low.rate) * (days - low.days)) / (high.days - low.days);
+  }
+  return last.rate;
+};
@@ -0,0 +1,242 @@
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from "./config.js";
+import { normalCdf, normalPdf } from "./metrics.js";
+import type { SmilePoint } from "./skew.js";
+
+export interface RiskNeutralPoint {
+  price: number;
+  probBelow: number; // P(S_T < price)
+  density: number; // 가격 1달러당 확률 밀도
+}
+
+export interface RiskNeutralPercentiles {
+  p5: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+}
+
+export interface RiskNeutralDistribution {
+  forward: number;
+  mean: number; // 분포 평균 (≈ forward 이면 정상)
+  probAboveSpot: number;
+  probBelowSpot: number;
+  callWall: number;
+  probAboveCallWall: number; // 만기에 Call Wall 위에서 끝날 확률
+  probTouchCallWall: number; // 만기 전 Call Wall 터치 확률 (반사 원리 근사)
+  putWall: number;
+  probBelowPutWall: number;
+  probTouchPutWall: number;
+  percentiles: RiskNeutralPercentiles;
+  distribution: RiskNeutralPoint[]; // 가격 오름차순 (그리드 샘플)
+}
+
+// 가격 그리드: forward 기준 ±GRID_SD 표준편차, GRID_POINTS개 (응답에는 OUTPUT_STRIDE 간격만)
+const GRID_SD = 6;
+const GRID_POINTS = 241;
+const OUTPUT_STRIDE = 4;
+
+/**
+ * 스마일 평활화: log-moneyness k = ln(K/F) 에 대한 2차 회귀 σ(k) = a + b·k + c·k²
+ * - 관측 범위 밖은 양 끝 값으로 고정 (날개 발산 방지)
+ * - 점이 3개 미만이면 ATM IV 상수
+ */
+const fitSmile = (
+  points: { k: number; iv: number }[],
+  atmIv: number,
+  config: AnalysisConfig
+) => {
+  const flat = { iv: () => atmIv, slope: () => 0 };
+  if (points.length < 3) return flat;
+
+  // 정규방정식 (3x3) 풀이
+  const s = [0, 0, 0, 0, 0];
+  const t = [0, 0, 0];
+  for (const { k, iv } of points) {
+    for (let p = 0; p <= 4; p++) s[p] += Math.pow(k, p);
+    for (let p = 0; p <= 2; p++) t[p] += iv * Math.pow(k, p);
+  }
+  const m = [
+    [s[0], s[1], s[2], t[0]],
+    [s[1], s[2], s[3], t[1]],
+    [s[2], s[3], s[4], t[2]],
+  ];
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return flat;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < 3; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let c = col; c < 4; c++) m[row][c] -= factor * m[col][c];
+    }
+  }
+  const [a, b, c] = [m[0][3] / m[0][0], m[1][3] / m[1][1], m[2][3] / m[2][2]];
+
+  const kMin = Math.min(...points.map((p) => p.k));
+  const kMax = Math.max(...points.map((p) => p.k));
+  const minIv = Math.max(
+    config.ivClampMin,
+    0.5 * Math.min(...points.map((p) => p.iv))
+  );
+  const raw = (k: number) => a + b * k + c * k * k;
+  return {
+    iv: (k: number) =>
+      Math.min(Math.max(raw(Math.min(Math.max(k, kMin), kMax)), minIv), config.ivClampMax),
+    // dσ/dk (고정 구간 / 클램프 구간은 0)
+    slope: (k: number) => {
+      if (k < kMin || k > kMax) return 0;
+      const value = raw(k);
+      if (value < minIv || value > config.ivClampMax) return 0;
+      return b + 2 * c * k;
+    },
+  };
+};
+
+const interpolateCdf = (points: RiskNeutralPoint[], price: number): number => {
+  if (price <= points[0].price) return points[0].probBelow;
+  const last = points[points.length - 1];
+  if (price >= last.price) return last.probBelow;
+  for (let i = 1; i < points.length; i++) {
+    const low = points[i - 1];
+    const high = points[i];
+    if (price <= high.price) {
+      return (
+        low.probBelow +
+        ((high.probBelow - low.probBelow) * (price - low.price)) /
+          (high.price - low.price)
+      );
+    }
+  }
+  return last.probBelow;
+};
+
+const percentile = (points: RiskNeutralPoint[], q: number): number => {
+  for (let i = 1; i < points.length; i++) {
+    const low = points[i - 1];
+    const high = points[i];
+    if (high.probBelow >= q) {
+      if (high.probBelow === low.probBelow) return high.price;
+      return (
+        low.price +
+        ((high.price - low.price) * (q - low.probBelow)) /
+          (high.probBelow - low.probBelow)
+      );
+    }
+  }
+  return points[points.length - 1].price;
+};
+
+/**
+ * 위험중립 확률 분포 (Breeden–Litzenberger)
+ * - 평활화한 스마일 σ(K)로 콜 가격 C(K)를 구성하고 P(S_T < K) = 1 + e^{rT}·∂C/∂K 를 해석적으로 계산
+ *   (∂C/∂K = −e^{−rT}·N(d2) + Vega·∂σ/∂K, 2차 차분 대신 1차 미분이라 수치 오차가 작음)
+ * - 밀도 = CDF 차분 (음수 구간은 CDF 단조 보정으로 0 처리, ±6 SD 밖 꼬리 확률은 그리드 끝에 남김)
+ * - 터치 확률: 반사 원리 근사 2 × P(만기에 해당 가격 너머), 최대 1
+ */
+export const calculateRiskNeutralDistribution = ({
+  smile,
+  atmIv,
+  spot,
+  timeToExpiration,
+  callWall,
+  putWall,
+  config = DEFAULT_ANALYSIS_CONFIG,
+}: {
+  smile: SmilePoint[];
+  atmIv: number | null;
+  spot: number;
+  timeToExpiration: number;
+  callWall: number;
+  putWall: number;
+  config?: AnalysisConfig;
+}): RiskNeutralDistribution | null => {
+  if (atmIv === null || smile.length === 0 || !(spot > 0)) return null;
+
+  const time = Math.max(timeToExpiration, 1 / (365 * 24));
+  const rate = config.riskFreeRate;
+  const dividendYield = config.dividendYield;
+  const forward = spot * Math.exp((rate - dividendYield) * time);
+  const sdLog = Math.max(atmIv * Math.sqrt(time), 0.002);
+
+  // 평활화는 ATM 근처(±4 SD, 최소 ±5%)만 사용 - 먼 날개의 stale IV 배제
+  const fitRange = Math.max(4 * sdLog, 0.05);
+  const smileFit = fitSmile(
+    smile
+      .map((p) => ({ k: Math.log(p.strike / forward), iv: p.iv }))
+      .filter((p) => Math.abs(p.k) <= fitRange),
+    atmIv,
+    config
+  );
+
+  const probBelowAt = (strike: number) => {
+    const k = Math.log(strike / forward);
+    const sigma = smileFit.iv(k);
+    const sqrtT = Math.sqrt(time);
+    const d1 = (-k + 0.5 * sigma * sigma * time) / (sigma * sqrtT);
+    const d2 = d1 - sigma * sqrtT;
+    // e^{rT}·Vega·∂σ/∂K (forward 기준 Vega = F·φ(d1)·√T·e^{−rT})
+    const vegaTerm = forward * normalPdf(d1) * sqrtT * (smileFit.slope(k) / strike);
+    return normalCdf(-d2) + vegaTerm;
+  };
+
+  const low = forward * Math.exp(-GRID_SD * sdLog);
+  const high = forward * Math.exp(GRID_SD * sdLog);
+  const step = (high - low) / (GRID_POINTS - 1);
+  const distribution: RiskNeutralPoint[] = [];
+  let runningMax = 0;
+  for (let i = 0; i < GRID_POINTS; i++) {
+    const price = low + step * i;
+    // CDF는 [0, 1] 범위 + 단조 증가가 되도록 보정
+    runningMax = Math.max(runningMax, Math.min(Math.max(probBelowAt(price), 0), 1));
+    distribution.push({ price, probBelow: runningMax, density: 0 });
+  }
+
+  if (!(distribution[distribution.length - 1].probBelow > distribution[0].probBelow)) {
+    return null;
+  }
+  for (let i = 0; i < distribution.length; i++) {
+    const prev = distribution[Math.max(i - 1, 0)];
+    const next = distribution[Math.min(i + 1, distribution.length - 1)];
+    distribution[i].density = (next.probBelow - prev.probBelow) / (next.price - prev.price);
+  }
+
+  let mean = 0;
+  for (let i = 1; i < distribution.length; i++) {
+    const mass = distribution[i].probBelow - distribution[i - 1].probBelow;
+    mean += mass * (distribution[i].price + distribution[i - 1].price) * 0.5;
+  }
+
+  const probBelowSpot = interpolateCdf(distribution, spot);
+  const probAboveCallWall = 1 - interpolateCdf(distribution, callWall);
+  const probBelowPutWall = interpolateCdf(distribution, putWall);
+
+  return {
+    forward,
+    mean,
+    probAboveSpot: 1 - probBelowSpot,
+    probBelowSpot,
+    callWall,
+    probAboveCallWall,
+    probTouchCallWall:
+      callWall > spot ? Math.min(2 * probAboveCallWall, 1) : 1,
+    putWall,
+    probBelowPutWall,
+    probTouchPutWall: putWall < spot ? Math.min(2 * probBelowPutWall, 1) : 1,
+    percentiles: {
+      p5: percentile(distribution, 0.05),
+      p10: percentile(distribution, 0.1),
+      p25: percentile(distribution, 0.25),
+      p50: percentile(distribution, 0.5),
+      p75: percentile(distribution, 0.75),
+      p90: percentile(distribution, 0.9),
+      p95: percentile(distribution, 0.95),
+    },
+    distribution: distribution.filter((_, idx) => idx % OUTPUT_STRIDE === 0),
+  };
+};
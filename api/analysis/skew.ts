@@ -0,0 +1,155 @@
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from "./config.js";
+import { calculateDelta } from "./metrics.js";
+
+export interface SmilePoint {
+  strike: number;
+  moneyness: number; // strike / spot
+  iv: number; // OTM 기준 (행사가 < spot: 풋, 이상: 콜)
+  callIv: number | null;
+  putIv: number | null;
+}
+
+export interface IvSkew {
+  atmIv: number | null;
+  put25dIv: number | null;
+  call25dIv: number | null;
+  riskReversal25d: number | null; // call25 - put25 (음수 = 풋 스큐 우위)
+  butterfly25d: number | null; // (call25 + put25) / 2 - ATM
+  putSkewSlope: number | null; // OTM 풋: 행사가 1% 하락당 IV 변화
+  callSkewSlope: number | null; // OTM 콜: 행사가 1% 상승당 IV 변화
+  smile: SmilePoint[];
+}
+
+type RawIvOption = {
+  strike: number | string;
+  impliedVolatility?: number | string;
+};
+
+// Yahoo 체인의 비정상 IV(0 근처 / 과대값) 제외 기준
+const MIN_VALID_IV = 0.01;
+
+const validIv = (opt: RawIvOption, config: AnalysisConfig) => {
+  const iv = Number(opt.impliedVolatility);
+  return isFinite(iv) && iv >= MIN_VALID_IV && iv <= config.ivClampMax ? iv : null;
+};
+
+const interpolate = (
+  points: { x: number; y: number }[],
+  target: number
+): number | null => {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  for (let i = 1; i < sorted.length; i++) {
+    const low = sorted[i - 1];
+    const high = sorted[i];
+    if (target >= low.x && target <= high.x) {
+      if (high.x === low.x) return low.y;
+      return low.y + ((high.y - low.y) * (target - low.x)) / (high.x - low.x);
+    }
+  }
+  return null;
+};
+
+// 최소제곱 기울기 (점이 2개 미만이면 null)
+const regressionSlope = (points: { x: number; y: number }[]): number | null => {
+  if (points.length < 2) return null;
+  const meanX = points.reduce((acc, p) => acc + p.x, 0) / points.length;
+  const meanY = points.reduce((acc, p) => acc + p.y, 0) / points.length;
+  const cov = points.reduce((acc, p) => acc + (p.x - meanX) * (p.y - meanY), 0);
+  const varX = points.reduce((acc, p) => acc + Math.pow(p.x - meanX, 2), 0);
+  return varX > 0 ? cov / varX : null;
+};
+
+/**
+ * 만기별 IV 스큐 / 스마일
+ * - 스마일: 행사가별 OTM IV (행사가 < spot 은 풋, 이상은 콜)
+ * - 25Δ IV: 각 옵션의 자체 IV로 계산한 Delta 기준 선형 보간 (범위 밖이면 null)
+ * - 스큐 기울기: spot 대비 ±skewRange 이내 OTM 옵션의 IV 회귀 기울기 (1% 당)
+ */
+export const calculateIvSkew = ({
+  calls,
+  puts,
+  spot,
+  timeToExpiration,
+  config = DEFAULT_ANALYSIS_CONFIG,
+  skewRange = 0.1,
+}: {
+  calls: RawIvOption[];
+  puts: RawIvOption[];
+  spot: number;
+  timeToExpiration: number;
+  config?: AnalysisConfig;
+  skewRange?: number;
+}): IvSkew => {
+  const ivByStrike = (options: RawIvOption[]) => {
+    const map = new Map<number, number>();
+    for (const opt of options) {
+      const iv = validIv(opt, config);
+      if (iv !== null) map.set(Number(opt.strike), iv);
+    }
+    return map;
+  };
+  const callIvs = ivByStrike(calls);
+  const putIvs = ivByStrike(puts);
+
+  const strikes = [...new Set([...callIvs.keys(), ...putIvs.keys()])].sort(
+    (a, b) => a - b
+  );
+  const smile: SmilePoint[] = [];
+  for (const strike of strikes) {
+    const callIv = callIvs.get(strike) ?? null;
+    const putIv = putIvs.get(strike) ?? null;
+    const iv = strike < spot ? putIv ?? callIv : callIv ?? putIv;
+    if (iv === null) continue;
+    smile.push({ strike, moneyness: strike / spot, iv, callIv, putIv });
+  }
+
+  const deltaPoints = (ivs: Map<number, number>, type: "call" | "put") =>
+    [...ivs]
+      .filter(([strike]) => (type === "call" ? strike >= spot : strike <= spot))
+      .map(([strike, iv]) => ({
+        x: calculateDelta({
+          spot,
+          strike,
+          time: timeToExpiration,
+          sigma: iv,
+          rate: config.riskFreeRate,
+          dividendYield: config.dividendYield,
+          type,
+        }),
+        y: iv,
+      }));
+
+  const atmIv = interpolate(
+    smile.map((p) => ({ x: p.strike, y: p.iv })),
+    spot
+  );
+  const put25dIv = interpolate(deltaPoints(putIvs, "put"), -0.25);
+  const call25dIv = interpolate(deltaPoints(callIvs, "call"), 0.25);
+
+  const putSlope = regressionSlope(
+    smile
+      .filter((p) => p.strike < spot && p.moneyness >= 1 - skewRange)
+      .map((p) => ({ x: (p.moneyness - 1) * 100, y: p.iv }))
+  );
+  const callSlope = regressionSlope(
+    smile
+      .filter((p) => p.strike >= spot && p.moneyness <= 1 + skewRange)
+      .map((p) => ({ x: (p.moneyness - 1) * 100, y: p.iv }))
+  );
+
+  return {
+    atmIv,
+    put25dIv,
+    call25dIv,
+    riskReversal25d:
+      put25dIv !== null && call25dIv !== null ? call25dIv - put25dIv : null,
+    butterfly25d:
+      put25dIv !== null && call25dIv !== null && atmIv !== null
+        ? (call25dIv + put25dIv) / 2 - atmIv
+        : null,
+    // 풋은 행사가가 내려갈수록 IV가 오르면 양수가 되도록 부호 반전
+    putSkewSlope: putSlope !== null ? -putSlope : null,
+    callSkewSlope: callSlope,
+    smile,
+  };
+};
@@ -0,0 +1,133 @@
+import { DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig } from "./config.js";
+import type { PriceProbability } from "./metrics.js";
+
+export interface SwingScenario {
+  entryDate: string;
+  exitDate: string;
+  entryIsoDate: string;
+  exitIsoDate: string;
+  entryPrice: number;
+  exitPrice: number; // Base Target (현실적 목표)
+  extensionPrice: number; // Extension Target (최대 목표)
+  profit: number; // Base Profit (%)
+  extensionProfit: number; // Extension Profit (%)
+  probability: number; // 시나리오 성공 확률 (%)
+  description: string;
+}
+
+export interface SwingScenarioInput {
+  date: string;
+  isoDate: string;
+  putSupport: number;
+  callResistance: number;
+  expectedLower: number;
+  expectedUpper: number;
+  sentiment: number;
+  totalGex: number;
+  priceProbability: PriceProbability;
+}
+
+export const SWING_SCENARIO_LIMIT = 5;
+export const SWING_SCENARIO_TOP = 3;
+
+// 요일 계산 헬퍼
+export const getDayName = (isoDate: string) => {
+  const days = ["일", "월", "화", "수", "목", "금", "토"];
+  try {
+    const date = new Date(isoDate);
+    return days[date.getDay()];
+  } catch {
+    return "";
+  }
+};
+
+/**
+ * 만기별 분석 결과로 [진입일 - 청산일] 스윙 시나리오 도출
+ * - /api/analysis 와 백테스트가 동일한 로직을 사용하도록 분리
+ */
+export const buildSwingScenarios = (
+  results: SwingScenarioInput[],
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): SwingScenario[] => {
+  if (results.length < 2) return [];
+
+  // 모든 가능한 [진입일 - 청산일] 조합 탐색 (최대 4일 간격까지, 5일 이내 데이터로 제한)
+  const combinations: SwingScenario[] = [];
+  const targetResults = results.slice(0, SWING_SCENARIO_LIMIT);
+
+  for (let i = 0; i < targetResults.length; i++) {
+    for (let j = i + 1; j < targetResults.length; j++) {
+      const entry = targetResults[i];
+      const exit = targetResults[j];
+
+      const entryDay = getDayName(entry.isoDate);
+      const exitDay = getDayName(exit.isoDate);
+      const duration = j - i;
+
+      // ✅ 현실적인 진입/청산가 산출 (Wall과 1-SD 기대값의 보수적 조합)
+      // 지지선(entry): Wall과 1-SD 중 현재가에 더 가까운(높은) 값을 선택
+      // 저항선(exit): Wall과 1-SD 중 현재가에 더 가까운(낮은) 값을 선택
+      const realisticEntry = Math.max(entry.putSupport, entry.expectedLower);
+      const realisticExit = Math.min(exit.callResistance, exit.expectedUpper);
+
+      const baseTarget = realisticExit * config.swingBaseTargetRatio; // 현실적인 1차 목표가
+      const extensionTarget = realisticExit;
+
+      const profit = ((baseTarget - realisticEntry) / realisticEntry) * 100;
+      const extensionProfit =
+        ((extensionTarget - realisticEntry) / realisticEntry) * 100;
+
+      // ✅ 시나리오 확률 계산
+      // 1) 청산 시점의 상승 확률 반영
+      // 2) 진입-청산 간 심리 지수 개선도 반영
+      // 3) GEX 에너지 증가 여부 반영
+      const sentimentImprovement = exit.sentiment - entry.sentiment;
+      const gexTrend = exit.totalGex > entry.totalGex ? 5 : -5;
+      let scenarioProb =
+        55 +
+        sentimentImprovement * 0.4 +
+        gexTrend +
+        (exit.priceProbability.up - exit.priceProbability.down) * 0.2;
+
+      // 기간이 길어질수록 불확실성 증가 (보정)
+      scenarioProb -= duration * 2;
+      scenarioProb = Math.round(
+        Math.max(
+          config.swingProbabilityMin,
+          Math.min(config.swingProbabilityMax, scenarioProb)
+        )
+      );
+
+      // 수익률이 0보다 큰 경우만 시나리오에 추가
+      if (profit > 0) {
+        combinations.push({
+          entryDate: `${entry.date}(${entryDay})`,
+          exitDate: `${exit.date}(${exitDay})`,
+          entryIsoDate: entry.isoDate,
+          exitIsoDate: exit.isoDate,
+          entryPrice: realisticEntry,
+          exitPrice: baseTarget,
+          extensionPrice: extensionTarget,
+          profit,
+          extensionProfit,
+          probability: scenarioProb,
+          description: `${duration}일 스윙: ${entryDay}요일 진입($${realisticEntry.toFixed(
+            2
+          )}) → ${exitDay}요일 목표($${baseTarget.toFixed(
+            2
+          )}) 시나리오 (1-SD 범위 기반)`,
+        });
+      }
+    }
+  }
+
+  // 수익률이 높은 상위 3개 시나리오만 선택 (단기 우선 정렬 추가)
+  return combinations
+    .sort((a, b) => {
+      // 확률 70% 이상인 것들을 최우선
+      if (a.probability >= 70 && b.probability < 70) return -1;
+      if (b.probability >= 70 && a.probability < 70) return 1;
+      return b.profit - a.profit;
+    })
+    .slice(0, SWING_SCENARIO_TOP);
+};
@@ -0,0 +1,99 @@
+export interface TermStructurePoint {
+  date: string;
+  isoDate: string;
+  days: number; // 잔존 일수 (달력 기준)
+  atmIv: number;
+}
+
+export type TermStructureShape =
+  | "contango"
+  | "backwardation"
+  | "flat"
+  | "insufficient_data";
+
+export interface IvTermStructure {
+  points: TermStructurePoint[];
+  iv7d: number | null;
+  iv14d: number | null;
+  iv30d: number | null;
+  slope: number | null; // iv30d - iv7d (양수 = 콘탱고)
+  shape: TermStructureShape;
+  vix: number | null;
+  vxn: number | null;
+  iv30dVsVix: number | null; // iv30d(%) - VIX (vol point)
+  iv30dVsVxn: number | null; // iv30d(%) - VXN (vol point)
+}
+
+// 7일/30일 IV 차이가 이 폭 이내면 flat
+const FLAT_BAND = 0.005;
+
+/**
+ * 잔존 일수 기준 ATM IV 보간 (총분산 σ²T 선형 보간)
+ * - 첫 만기 이전 / 마지막 만기 이후는 가장 가까운 만기의 IV 사용 (flat)
+ */
+const interpolateTermIv = (
+  points: TermStructurePoint[],
+  targetDays: number
+): number | null => {
+  if (points.length === 0) return null;
+  const sorted = [...points].sort((a, b) => a.days - b.days);
+  if (targetDays <= sorted[0].days) return sorted[0].atmIv;
+  const last = sorted[sorted.length - 1];
+  if (targetDays >= last.days) return last.atmIv;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const low = sorted[i - 1];
+    const high = sorted[i];
+    if (targetDays > high.days) continue;
+    const lowVar = low.atmIv * low.atmIv * low.days;
+    const highVar = high.atmIv * high.atmIv * high.days;
+    const variance =
+      high.days === low.days
+        ? lowVar
+        : lowVar +
+          ((highVar - lowVar) * (targetDays - low.days)) / (high.days - low.days);
+    return Math.sqrt(Math.max(variance, 0) / targetDays);
+  }
+  return null;
+};
+
+/**
+ * ATM IV 기간 구조 (7/14/30일 보간 + 콘탱고/백워데이션 + VIX/VXN 비교)
+ */
+export const buildIvTermStructure = ({
+  points,
+  vix,
+  vxn,
+}: {
+  points: TermStructurePoint[];
+  vix: number | null;
+  vxn: number | null;
+}): IvTermStructure => {
+  const sorted = [...points].sort((a, b) => a.days - b.days);
+  const iv7d = interpolateTermIv(sorted, 7);
+  const iv14d = interpolateTermIv(sorted, 14);
+  const iv30d = interpolateTermIv(sorted, 30);
+
+  // 서로 다른 만기 2개 이상이 있어야 기울기 판단
+  const slope =
+    sorted.length >= 2 && iv7d !== null && iv30d !== null ? iv30d - iv7d : null;
+  let shape: TermStructureShape = "insufficient_data";
+  if (slope !== null) {
+    if (slope > FLAT_BAND) shape = "contango";
+    else if (slope < -FLAT_BAND) shape = "backwardation";
+    else shape = "flat";
+  }
+
+  return {
+    points: sorted,
+    iv7d,
+    iv14d,
+    iv30d,
+    slope,
+    shape,
+    vix,
+    vxn,
+    iv30dVsVix: iv30d !== null && vix !== null ? iv30d * 100 - vix : null,
+    iv30dVsVxn: iv30d !== null && vxn !== null ? iv30d * 100 - vxn : null,
+  };
+};
@@ -0,0 +1,160 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  ChartQuote,
+  ChartResult,
+  MarketDataProvider,
+  MarketQuote,
+  OptionChainSlice,
+} from "./marketDataProvider.js";
+
+/**
+ * Fixture 디렉터리 구조 (심볼별)
+ *   <dir>/<SYMBOL>/quote.json
+ *   <dir>/<SYMBOL>/chart-<interval>.json
+ *   <dir>/<SYMBOL>/expirations.json
+ *   <dir>/<SYMBOL>/options/<YYYY-MM-DD>.json
+ */
+const DATE_KEYS = new Set([
+  "date",
+  "expiration",
+  "expirationDate",
+  "lastTradeDate",
+  "regularMarketTime",
+]);
+
+const reviveDates = (key: string, value: unknown) =>
+  DATE_KEYS.has(key) && typeof value === "string" ? new Date(value) : value;
+
+const symbolDir = (dir: string, symbol: string) =>
+  path.join(dir, encodeURIComponent(symbol.trim().toUpperCase()));
+
+const expirationKey = (date: Date) => date.toISOString().split("T")[0];
+
+const fixturePaths = (dir: string, symbol: string) => {
+  const base = symbolDir(dir, symbol);
+  return {
+    quote: path.join(base, "quote.json"),
+    chart: (interval: string) => path.join(base, `chart-${interval}.json`),
+    expirations: path.join(base, "expirations.json"),
+    options: (expiration: Date) =>
+      path.join(base, "options", `${expirationKey(expiration)}.json`),
+  };
+};
+
+const readFixture = async <T,>(filePath: string): Promise<T> => {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch {
+    throw new Error(`Fixture not found: ${filePath}`);
+  }
+  return JSON.parse(raw, reviveDates) as T;
+};
+
+const writeFixture = async (filePath: string, data: unknown) => {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(data, null, 2));
+};
+
+/**
+ * 기록된 JSON을 재생하는 오프라인 공급자
+ */
+export const createFixtureProvider = (dir: string): MarketDataProvider => {
+  const root = path.resolve(dir);
+
+  return {
+    name: "fixture",
+    quote: (symbol) => readFixture<MarketQuote>(fixturePaths(root, symbol).quote),
+    chart: async (symbol, request) => {
+      const chart = await readFixture<ChartResult>(
+        fixturePaths(root, symbol).chart(request.interval)
+      );
+      // 요청 기간에 해당하는 구간만 재생
+      const quotes = (chart.quotes || []).filter((q) => {
+        const dateStr = expirationKey(q.date);
+        return dateStr >= request.period1 && dateStr <= request.period2;
+      });
+      return { quotes };
+    },
+    optionExpirations: async (symbol) => {
+      const dates = await readFixture<string[]>(
+        fixturePaths(root, symbol).expirations
+      );
+      return dates.map((d) => new Date(d));
+    },
+    optionChain: async (symbol, expiration) => {
+      try {
+        return await readFixture<OptionChainSlice>(
+          fixturePaths(root, symbol).options(expiration)
+        );
+      } catch {
+        return null;
+      }
+    },
+  };
+};
+
+/**
+ * 내부 공급자의 응답을 fixture 형식으로 기록하는 래퍼
+ * - 차트는 기존 기록과 날짜 기준으로 병합하여 여러 기간 요청을 누적합니다.
+ */
+export const createRecordingProvider = (
+  inner: MarketDataProvider,
+  dir: string
+): MarketDataProvider => {
+  const root = path.resolve(dir);
+
+  const record = async (filePath: string, data: unknown) => {
+    try {
+      await writeFixture(filePath, data);
+    } catch (error) {
+      console.warn(
+        `[Fixture] ${filePath} 기록 실패: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+
+  return {
+    name: `${inner.name}+recording`,
+    quote: async (symbol) => {
+      const quote = await inner.quote(symbol);
+      await record(fixturePaths(root, symbol).quote, quote);
+      return quote;
+    },
+    chart: async (symbol, request) => {
+      const chart = await inner.chart(symbol, request);
+      const filePath = fixturePaths(root, symbol).chart(request.interval);
+      const existing = await readFixture<ChartResult>(filePath).catch(() => ({
+        quotes: [] as ChartQuote[],
+      }));
+      const merged = new Map<number, ChartQuote>();
+      [...existing.quotes, ...(chart.quotes || [])].forEach((q) =>
+        merged.set(new Date(q.date).getTime(), q)
+      );
+      await record(filePath, {
+        quotes: Array.from(merged.values()).sort(
+          (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+        ),
+      });
+      return chart;
+    },
+    optionExpirations: async (symbol) => {
+      const dates = await inner.optionExpirations(symbol);
+      await record(
+        fixturePaths(root, symbol).expirations,
+        dates.map((d) => new Date(d).toISOString())
+      );
+      return dates;
+    },
+    optionChain: async (symbol, expiration) => {
+      const chain = await inner.optionChain(symbol, expiration);
+      if (chain) {
+        await record(fixturePaths(root, symbol).options(expiration), chain);
+      }
+      return chain;
+    },
+  };
+};
@@ -0,0 +1,128 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { IntradayPoint } from "../analysis/intraday.js";
+
+export const DEFAULT_INTRADAY_DIR = "data/intraday";
+export const DEFAULT_INTRADAY_MIN_INTERVAL_SECONDS = 60;
+
+export interface IntradayHistory {
+  dir: string | null; // 파일 저장 경로 (메모리 전용이면 null)
+  /**
+   * 포인트 기록 후 세션 히스토리 반환 (마지막 항목 = 이번 포인트)
+   * - 직전 기록과 최소 간격 이내면 저장하지 않고 응답에만 포함
+   */
+  record(symbol: string, sessionDate: string, point: IntradayPoint): Promise<IntradayPoint[]>;
+  /** 특정 거래일 히스토리 (시간 오름차순) */
+  load(symbol: string, sessionDate: string): Promise<IntradayPoint[]>;
+}
+
+const symbolDir = (dir: string, symbol: string) =>
+  path.join(dir, encodeURIComponent(symbol.trim().toUpperCase()));
+
+/**
+ * 0DTE 장중 히스토리 (메모리 + 선택적 JSONL)
+ * - 메모리에는 심볼별 최신 거래일만 유지
+ * - dir 지정 시 <dir>/<SYMBOL>/<sessionDate>.jsonl 에 누적 (재시작 후 복원)
+ */
+export const createIntradayHistory = (
+  dir: string | null,
+  minIntervalSeconds: number = DEFAULT_INTRADAY_MIN_INTERVAL_SECONDS
+): IntradayHistory => {
+  const root = dir ? path.resolve(dir) : null;
+  const sessions = new Map<string, { sessionDate: string; points: IntradayPoint[] }>();
+  // 심볼별 기록 직렬화 (동시 요청이 서로의 포인트 / 최소 간격 확인을 덮어쓰지 않도록)
+  const pending = new Map<string, Promise<unknown>>();
+
+  // 캐시된 세션 배열 자체를 반환 (없으면 파일에서 복원)
+  const loadSession = async (key: string, sessionDate: string) => {
+    const cached = sessions.get(key);
+    if (cached?.sessionDate === sessionDate) return cached.points;
+
+    const points: IntradayPoint[] = [];
+    if (root) {
+      try {
+        const raw = await readFile(
+          path.join(symbolDir(root, key), `${sessionDate}.jsonl`),
+          "utf8"
+        );
+        raw.split("\n").forEach((line) => {
+          if (!line.trim()) return;
+          try {
+            points.push(JSON.parse(line) as IntradayPoint);
+          } catch {
+            // 손상된 줄은 건너뜀
+          }
+        });
+      } catch {
+        // 파일 없음 = 빈 세션
+      }
+    }
+    points.sort((a, b) => (a.timestamp < b.timestamp ? -1 : 1));
+    // 파일을 읽는 동안 다른 요청이 같은 세션을 채웠으면 그쪽을 사용
+    const current = sessions.get(key);
+    if (current?.sessionDate === sessionDate) return current.points;
+    sessions.set(key, { sessionDate, points });
+    return points;
+  };
+
+  const recordNow = async (
+    key: string,
+    sessionDate: string,
+    point: IntradayPoint
+  ): Promise<IntradayPoint[]> => {
+    const points = await loadSession(key, sessionDate);
+    const last = points[points.length - 1];
+    if (
+      last &&
+      new Date(point.timestamp).getTime() - new Date(last.timestamp).getTime() <
+        minIntervalSeconds * 1000
+    ) {
+      return [...points, point];
+    }
+
+    // 파일 기록이 성공한 뒤에만 메모리에 반영 (실패 시 메모리 / 파일 불일치 방지)
+    if (root) {
+      const targetDir = symbolDir(root, key);
+      await mkdir(targetDir, { recursive: true });
+      await appendFile(
+        path.join(targetDir, `${sessionDate}.jsonl`),
+        `${JSON.stringify(point)}\n`
+      );
+    }
+    points.push(point);
+    return [...points];
+  };
+
+  return {
+    dir: root,
+    load: async (symbol, sessionDate) => [
+      ...(await loadSession(symbol.trim().toUpperCase(), sessionDate)),
+    ],
+    record: (symbol, sessionDate, point) => {
+      const key = symbol.trim().toUpperCase();
+      const result = (pending.get(key) ?? Promise.resolve()).then(() =>
+        recordNow(key, sessionDate, point)
+      );
+      pending.set(key, result.catch(() => undefined));
+      return result;
+    },
+  };
+};
+
+/**
+ * 환경 변수 기반 기본 히스토리
+ * - INTRADAY_ARCHIVE=off 이거나 Vercel에서 경로 미지정 시 메모리 전용
+ */
+export const createDefaultIntradayHistory = (
+  env: NodeJS.ProcessEnv = process.env
+): IntradayHistory => {
+  const minInterval = Number(env.INTRADAY_MIN_INTERVAL_SECONDS);
+  const interval =
+    isFinite(minInterval) && minInterval >= 0
+      ? minInterval
+      : DEFAULT_INTRADAY_MIN_INTERVAL_SECONDS;
+  if (env.INTRADAY_ARCHIVE === "off" || (env.VERCEL && !env.INTRADAY_ARCHIVE_DIR)) {
+    return createIntradayHistory(null, interval);
+  }
+  return createIntradayHistory(env.INTRADAY_ARCHIVE_DIR || DEFAULT_INTRADAY_DIR, interval);
+};
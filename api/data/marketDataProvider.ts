@@ -0,0 +1,85 @@
+import { createFixtureProvider, createRecordingProvider } from "./fixtureProvider.js";
+import { createYahooProvider } from "./yahooProvider.js";
+
+export interface MarketQuote {
+  [key: string]: unknown;
+  symbol?: string;
+  regularMarketPrice?: number;
+  regularMarketChangePercent?: number;
+  regularMarketPreviousClose?: number;
+  regularMarketTime?: Date;
+}
+
+export interface ChartQuote {
+  [key: string]: unknown;
+  date: Date;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+  adjclose?: number | null;
+}
+
+export interface ChartResult {
+  quotes: ChartQuote[];
+}
+
+export interface ChartRequest {
+  period1: string;
+  period2: string;
+  interval: "1d" | "1m";
+}
+
+export interface OptionContract {
+  [key: string]: unknown;
+  contractSymbol?: string;
+  strike: number;
+  lastPrice: number;
+  change: number;
+  percentChange?: number;
+  volume?: number;
+  openInterest?: number;
+  bid?: number;
+  ask?: number;
+  expiration: Date;
+  lastTradeDate?: Date;
+  impliedVolatility: number;
+  inTheMoney?: boolean;
+}
+
+export interface OptionChainSlice {
+  expirationDate: Date;
+  calls: OptionContract[];
+  puts: OptionContract[];
+}
+
+/**
+ * 시세/차트/옵션 데이터 공급자 인터페이스
+ * - 기본은 Yahoo Finance, 오프라인 분석 및 테스트에는 fixture 공급자를 주입합니다.
+ */
+export interface MarketDataProvider {
+  name: string;
+  quote(symbol: string): Promise<MarketQuote>;
+  chart(symbol: string, request: ChartRequest): Promise<ChartResult>;
+  optionExpirations(symbol: string): Promise<Date[]>;
+  optionChain(symbol: string, expiration: Date): Promise<OptionChainSlice | null>;
+}
+
+/**
+ * 환경 변수 기반 기본 공급자 선택
+ * - MARKET_DATA_FIXTURES: 지정된 디렉터리의 기록된 JSON을 재생
+ * - MARKET_DATA_RECORD: Yahoo 응답을 지정된 디렉터리에 기록 (fixture 생성용)
+ */
+export const createMarketDataProvider = (
+  env: NodeJS.ProcessEnv = process.env
+): MarketDataProvider => {
+  if (env.MARKET_DATA_FIXTURES) {
+    return createFixtureProvider(env.MARKET_DATA_FIXTURES);
+  }
+  const yahoo = createYahooProvider();
+  if (env.MARKET_DATA_RECORD) {
+    return createRecordingProvider(yahoo, env.MARKET_DATA_RECORD);
+  }
+  return yahoo;
+};
@@ -0,0 +1,151 @@
+import { appendFile, mkdir, readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import type { OptionContract } from "./marketDataProvider.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const DEFAULT_SNAPSHOT_DIR = "data/snapshots";
+export const DEFAULT_SNAPSHOT_MIN_INTERVAL_MINUTES = 30;
+
+export interface OptionChainSnapshot {
+  symbol: string;
+  capturedAt: string; // 캡처 시각 (ISO)
+  sessionDate: string; // 뉴욕 기준 거래일 (YYYY-MM-DD)
+  expirationDate: string; // 만기일 (YYYY-MM-DD)
+  spot: number | null; // 캡처 시점 기초자산 가격
+  source: string; // 캡처 경로 (analysis / capture 등)
+  calls: OptionContract[];
+  puts: OptionContract[];
+}
+
+export interface SnapshotArchive {
+  dir: string;
+  /** 스냅샷 저장 (최소 간격 이내 중복 저장 시 false) */
+  save(
+    snapshot: Omit<OptionChainSnapshot, "capturedAt" | "sessionDate"> & {
+      capturedAt?: Date;
+    },
+    options?: { force?: boolean }
+  ): Promise<boolean>;
+  /** 저장된 거래일 목록 (오름차순) */
+  listSessions(symbol: string): Promise<string[]>;
+  /** 특정 거래일의 만기별 최신 스냅샷 */
+  loadSession(symbol: string, sessionDate: string): Promise<OptionChainSnapshot[]>;
+}
+
+const symbolDir = (dir: string, symbol: string) =>
+  path.join(dir, encodeURIComponent(symbol.trim().toUpperCase()));
+
+// 계약 단위 날짜 필드만 복원 (스냅샷의 expirationDate는 YYYY-MM-DD 문자열 유지)
+const reviveContractDates = (key: string, value: unknown) =>
+  (key === "expiration" || key === "lastTradeDate") && typeof value === "string"
+    ? new Date(value)
+    : value;
+
+const toSessionDate = (date: Date) =>
+  dayjs(date).tz("America/New_York").format("YYYY-MM-DD");
+
+/**
+ * 옵션 체인 스냅샷 아카이브 (JSONL)
+ * - <dir>/<SYMBOL>/<sessionDate>.jsonl 파일에 만기별 스냅샷을 한 줄씩 누적
+ * - 폴링으로 인한 과도한 저장을 막기 위해 심볼/만기별 최소 저장 간격 적용
+ */
+export const createSnapshotArchive = (
+  dir: string,
+  minIntervalMinutes: number = DEFAULT_SNAPSHOT_MIN_INTERVAL_MINUTES
+): SnapshotArchive => {
+  const root = path.resolve(dir);
+  const lastSavedAt = new Map<string, number>();
+
+  return {
+    dir: root,
+    save: async (snapshot, options) => {
+      const capturedAt = snapshot.capturedAt ?? new Date();
+      const symbol = snapshot.symbol.trim().toUpperCase();
+      const throttleKey = `${symbol}|${snapshot.expirationDate}`;
+      const previous = lastSavedAt.get(throttleKey);
+      if (
+        !options?.force &&
+        previous !== undefined &&
+        capturedAt.getTime() - previous < minIntervalMinutes * 60 * 1000
+      ) {
+        return false;
+      }
+      lastSavedAt.set(throttleKey, capturedAt.getTime());
+
+      const record: OptionChainSnapshot = {
+        ...snapshot,
+        symbol,
+        capturedAt: capturedAt.toISOString(),
+        sessionDate: toSessionDate(capturedAt),
+      };
+      const targetDir = symbolDir(root, symbol);
+      await mkdir(targetDir, { recursive: true });
+      await appendFile(
+        path.join(targetDir, `${record.sessionDate}.jsonl`),
+        `${JSON.stringify(record)}\n`
+      );
+      return true;
+    },
+    listSessions: async (symbol) => {
+      try {
+        const files = await readdir(symbolDir(root, symbol));
+        return files
+          .filter((f) => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(f))
+          .map((f) => f.replace(/\.jsonl$/, ""))
+          .sort();
+      } catch {
+        return [];
+      }
+    },
+    loadSession: async (symbol, sessionDate) => {
+      let raw: string;
+      try {
+        raw = await readFile(
+          path.join(symbolDir(root, symbol), `${sessionDate}.jsonl`),
+          "utf8"
+        );
+      } catch {
+        return [];
+      }
+      const latestByExpiration = new Map<string, OptionChainSnapshot>();
+      raw.split("\n").forEach((line) => {
+        if (!line.trim()) return;
+        try {
+          const snapshot = JSON.parse(line, reviveContractDates) as OptionChainSnapshot;
+          const existing = latestByExpiration.get(snapshot.expirationDate);
+          if (!existing || existing.capturedAt <= snapshot.capturedAt) {
+            latestByExpiration.set(snapshot.expirationDate, snapshot);
+          }
+        } catch {
+          // 손상된 줄은 건너뜀
+        }
+      });
+      return Array.from(latestByExpiration.values()).sort((a, b) =>
+        a.expirationDate < b.expirationDate ? -1 : 1
+      );
+    },
+  };
+};
+
+/**
+ * 환경 변수 기반 기본 아카이브
+ * - SNAPSHOT_ARCHIVE=off 이거나 Vercel(읽기 전용 파일시스템)에서 경로 미지정 시 비활성화
+ */
+export const createDefaultSnapshotArchive = (
+  env: NodeJS.ProcessEnv = process.env
+): SnapshotArchive | null => {
+  if (env.SNAPSHOT_ARCHIVE === "off") return null;
+  if (env.VERCEL && !env.SNAPSHOT_ARCHIVE_DIR) return null;
+  const minInterval = Number(env.SNAPSHOT_MIN_INTERVAL_MINUTES);
+  return createSnapshotArchive(
+    env.SNAPSHOT_ARCHIVE_DIR || DEFAULT_SNAPSHOT_DIR,
+    isFinite(minInterval) && minInterval >= 0
+      ? minInterval
+      : DEFAULT_SNAPSHOT_MIN_INTERVAL_MINUTES
+  );
+};
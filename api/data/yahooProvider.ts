@@ -0,0 +1,28 @@
+import YahooFinance from "yahoo-finance2";
+import type { MarketDataProvider } from "./marketDataProvider.js";
+
+export const createYahooProvider = (): MarketDataProvider => {
+  const yahooFinance = new YahooFinance({
+    suppressNotices: ["ripHistorical", "yahooSurvey"],
+  });
+
+  return {
+    name: "yahoo",
+    quote: (symbol) => yahooFinance.quote(symbol),
+    chart: (symbol, request) => yahooFinance.chart(symbol, request),
+    optionExpirations: async (symbol) => {
+      const optionChain = await yahooFinance.options(symbol);
+      return (optionChain?.expirationDates || []) as Date[];
+    },
+    optionChain: async (symbol, expiration) => {
+      const details = await yahooFinance.options(symbol, { date: expiration });
+      const expirationData = details?.options?.[0];
+      if (!expirationData) return null;
+      return {
+        expirationDate: expirationData.expirationDate ?? expiration,
+        calls: expirationData.calls || [],
+        puts: expirationData.puts || [],
+      };
+    },
+  };
+};
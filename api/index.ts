@@ -1,34 +1,164 @@
 import express, { Request, Response } from "express";
 import cors from "cors";
-import YahooFinance from "yahoo-finance2";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc.js";
 import timezone from "dayjs/plugin/timezone.js";
 import {
+  aggregateDexByStrike,
+  analyzeGexCurve,
+  buildGexHeatmap,
+  buildSpotGrid,
+  calculateCharmRehedge,
   calculateExpectedMoveRange,
+  calculateStraddleExpectedMove,
+  filterLiquidOptions,
   calculateGammaAdjustedExpectedPrice,
+  calculateGexCurve,
   calculatePriceProbabilities,
   calculateSentiment,
+  findOIWalls,
   findTrueGammaFlip,
   generateRecommendations,
   processOption,
-  VOLATILITY_TRIGGER_RATIO,
+  sumGexCurves,
+  type CharmRehedge,
+  type GammaFlipCrossing,
+  type GammaFlipStatus,
+  type GexCurvePoint,
   type OptionDataInput,
   type ProcessedOption,
+  type StrikeDex,
 } from "./analysis/metrics.js";
+import {
+  extractConfigOverrides,
+  loadAnalysisConfig,
+  mergeAnalysisConfig,
+  type AnalysisConfig,
+} from "./analysis/config.js";
+import {
+  constantRateCurve,
+  interpolateRate,
+  loadRateCurve,
+  rateCurveFromIrx,
+  type RateCurve,
+} from "./analysis/rateCurve.js";
+import {
+  loadDividendSchedule,
+  upcomingDividends,
+  type DividendEvent,
+  type DividendSchedule,
+} from "./analysis/pricing.js";
+import {
+  createMarketDataProvider,
+  type MarketDataProvider,
+} from "./data/marketDataProvider.js";
+import {
+  calculateOIChange,
+  loadPriorSession,
+  unavailableOIChange,
+  type OIChange,
+  type OIChangeUnavailableReason,
+  type PriorSession,
+  type StrikeOIChange,
+} from "./analysis/oiChange.js";
+import {
+  buildSwingScenarios,
+  getDayName,
+  type SwingScenario,
+} from "./analysis/swingScenarios.js";
+import { calculateIvSkew, type IvSkew } from "./analysis/skew.js";
+import { calculateMaxPain, calculatePinLevels } from "./analysis/pinning.js";
+import {
+  calculateRiskNeutralDistribution,
+  type RiskNeutralDistribution,
+} from "./analysis/riskNeutral.js";
+import {
+  applyDealerModel,
+  compareDealerModels,
+  DEFAULT_DEALER_POSITIONING,
+  extractDealerPositioning,
+  type DealerModelSummary,
+  type DealerPositioning,
+} from "./analysis/dealerPositioning.js";
+import {
+  buildIvTermStructure,
+  type IvTermStructure,
+} from "./analysis/termStructure.js";
+import {
+  buildIntradayPoint,
+  calculateIntradayShifts,
+} from "./analysis/intraday.js";
+import {
+  createDefaultSnapshotArchive,
+  type SnapshotArchive,
+} from "./data/snapshotArchive.js";
+import {
+  createDefaultIntradayHistory,
+  type IntradayHistory,
+} from "./data/intradayHistory.js";
 
 // dayjs 설정 (ESM/CJS 호환성을 위해 .js 확장자 명시 권장되는 경우 대응)
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
-const yahooFinance = new YahooFinance({
-  suppressNotices: ["ripHistorical", "yahooSurvey"],
-});
 const app = express();
+// 시세 공급자 주입 지점 (기본: Yahoo, MARKET_DATA_FIXTURES 지정 시 fixture 재생)
+app.locals.marketData = createMarketDataProvider();
+// 옵션 체인 스냅샷 아카이브 (비활성화 시 null)
+app.locals.snapshotArchive = createDefaultSnapshotArchive();
+// 0DTE 장중 히스토리 (메모리, INTRADAY_ARCHIVE_DIR 또는 data/intraday 에 JSONL 누적)
+app.locals.intradayHistory = createDefaultIntradayHistory();
+// 분석 파라미터 (ANALYSIS_CONFIG_FILE 또는 analysis.config.json, 요청별 덮어쓰기 가능)
+app.locals.analysisConfig = loadAnalysisConfig();
+// 종목별 배당락 일정 (DIVIDEND_SCHEDULE_FILE 또는 dividends.json, 없으면 연속 배당 수익률)
+app.locals.dividendSchedule = loadDividendSchedule();
+// 무위험 금리 곡선 (RATE_CURVE_FILE 또는 rate-curve.json, 없으면 요청 시 ^IRX)
+app.locals.rateCurve = loadRateCurve();
 
 app.use(cors());
 app.use(express.json());
 
+const getMarketData = (req: Request): MarketDataProvider =>
+  req.app.locals.marketData as MarketDataProvider;
+
+const getSnapshotArchive = (req: Request): SnapshotArchive | null =>
+  (req.app.locals.snapshotArchive as SnapshotArchive | null) ?? null;
+
+const getIntradayHistory = (req: Request): IntradayHistory =>
+  req.app.locals.intradayHistory as IntradayHistory;
+
+/**
+ * 서버 기본 설정 + 요청별 덮어쓰기 (query / body.config)
+ */
+const getAnalysisConfig = (req: Request): AnalysisConfig =>
+  mergeAnalysisConfig(
+    req.app.locals.analysisConfig as AnalysisConfig,
+    extractConfigOverrides(req.query as Record<string, unknown>, req.body)
+  );
+
+const getDividendEvents = (req: Request, symbol: string): DividendEvent[] =>
+  (req.app.locals.dividendSchedule as DividendSchedule)[symbol] ?? [];
+
+/**
+ * 만기 전 배당락 → 이산 배당 (배당락일 09:30 NY 기준 잔존 연수)
+ */
+const toDiscreteDividends = (
+  events: DividendEvent[],
+  now: dayjs.Dayjs,
+  timeToExpiration: number
+) =>
+  upcomingDividends(
+    events,
+    (exDate) =>
+      dayjs
+        .tz(exDate, "America/New_York")
+        .hour(9)
+        .minute(30)
+        .second(0)
+        .diff(now, "year", true),
+    timeToExpiration
+  );
+
 const sleep = (ms: number) =>
   new Promise<void>((resolve) => setTimeout(resolve, ms));
 
@@ -94,6 +224,15 @@ const isDailyExpiration = (date: Date, now: dayjs.Dayjs) => {
   return expStr === now.format("YYYY-MM-DD");
 };
 
+// 다음 거래 세션 (주말만 건너뜀, 휴장일 미반영)
+const getNextSessionDate = (now: dayjs.Dayjs) => {
+  let next = now.startOf("day").add(1, "day");
+  while (next.day() === 0 || next.day() === 6) {
+    next = next.add(1, "day");
+  }
+  return next;
+};
+
 const getNextDailyExpirations = (
   expirationDates: Date[],
   now: dayjs.Dayjs,
@@ -107,10 +246,195 @@ const getNextDailyExpirations = (
     .slice(0, count);
 };
 
+/**
+ * 만기별 금리 곡선 선택
+ * - useRateCurve = false: riskFreeRate 상수
+ * - 파일 곡선 우선, 없으면 ^IRX 시세 (실패 시 riskFreeRate 상수)
+ */
+const resolveRateCurve = async (
+  req: Request,
+  marketData: MarketDataProvider,
+  config: AnalysisConfig,
+  onLog?: (message: string) => void
+): Promise<RateCurve> => {
+  if (!config.useRateCurve) return constantRateCurve(config.riskFreeRate);
+  const fileCurve = req.app.locals.rateCurve as RateCurve | null;
+  if (fileCurve) return fileCurve;
+  try {
+    const irxQuote = await withRetry(
+      () => marketData.quote("^IRX"),
+      "^IRX quote",
+      onLog
+    );
+    const irxCurve = rateCurveFromIrx(
+      irxQuote.regularMarketPrice ?? irxQuote.regularMarketPreviousClose
+    );
+    if (irxCurve) return irxCurve;
+  } catch (error) {
+    onLog?.(
+      `[Warning] ^IRX quote failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  return constantRateCurve(config.riskFreeRate);
+};
+
+/**
+ * 만기별 금리를 반영한 설정 (processOption / IV 역산 / 스큐 / 위험중립 분포 입력)
+ */
+const withExpirationRate = (
+  config: AnalysisConfig,
+  rateCurve: RateCurve,
+  timeToExpiration: number
+): AnalysisConfig => ({
+  ...config,
+  riskFreeRate: interpolateRate(rateCurve, timeToExpiration),
+});
+
+interface ProcessedExpiration {
+  expirationDate: string; // YYYY-MM-DD
+  isoDate: string; // 만기일 16:00 (NY)
+  timeToExpiration: number;
+  calls: ProcessedOption[];
+  puts: ProcessedOption[];
+}
+
+/**
+ * 지정 기간(기본 30일, 부족하면 가까운 5개) 만기 체인을 받아 ±moneyness 필터 후 processOption 적용
+ * - maxExpirations 지정 시 기간 대신 가까운 만기 N개만 사용 (0DTE: 1)
+ * - /api/analysis와 같은 유동성 필터 / 딜러 포지셔닝 모델 적용
+ * - 데이터가 없거나 필터 후 비어 있는 만기는 제외
+ */
+const loadProcessedExpirations = async ({
+  marketData,
+  symbol,
+  currentPrice,
+  now,
+  config,
+  positioning = DEFAULT_DEALER_POSITIONING,
+  dividendEvents = [],
+  rateCurve = constantRateCurve(config.riskFreeRate),
+  days = 30,
+  maxExpirations,
+  onLog,
+}: {
+  marketData: MarketDataProvider;
+  symbol: string;
+  currentPrice: number;
+  now: dayjs.Dayjs;
+  config: AnalysisConfig;
+  positioning?: DealerPositioning;
+  dividendEvents?: DividendEvent[];
+  rateCurve?: RateCurve;
+  days?: number;
+  maxExpirations?: number;
+  onLog?: (message: string) => void;
+}): Promise<ProcessedExpiration[]> => {
+  const rawExpirationDates = await withRetry(
+    () => marketData.optionExpirations(symbol),
+    `${symbol} options`,
+    onLog
+  );
+  if (!rawExpirationDates?.length) {
+    throw new Error("만기일 데이터를 가져오지 못했습니다.");
+  }
+
+  const todayStr = now.format("YYYY-MM-DD");
+  const limitStr = now.startOf("day").add(days, "day").format("YYYY-MM-DD");
+  const futureExpirations = rawExpirationDates.filter(
+    (d) => formatExpirationDate(d) >= todayStr
+  );
+  const targetExpirations = futureExpirations.filter(
+    (d) => formatExpirationDate(d) <= limitStr
+  );
+  const finalExpirations =
+    maxExpirations !== undefined
+      ? futureExpirations.slice(0, maxExpirations)
+      : targetExpirations.length >= 5
+        ? targetExpirations
+        : futureExpirations.slice(0, 5);
+
+  const inRange = (strike: number) =>
+    strike > currentPrice * (1 - config.moneynessFilter) &&
+    strike < currentPrice * (1 + config.moneynessFilter);
+
+  const results = await Promise.all(
+    finalExpirations.map(async (d): Promise<ProcessedExpiration | null> => {
+      const expDateStr = formatExpirationDate(d);
+      const chain = await withRetry(
+        () => marketData.optionChain(symbol, d),
+        `${symbol} options ${expDateStr}`,
+        onLog
+      );
+      const dateObj = dayjs
+        .tz(expDateStr, "America/New_York")
+        .hour(16)
+        .minute(0)
+        .second(0);
+      const timeDiff = dateObj.diff(now, "year", true);
+      const timeToExpiration = timeDiff <= 0 ? 0.000001 : timeDiff;
+      const dividends = toDiscreteDividends(dividendEvents, now, timeToExpiration);
+      const expirationConfig = withExpirationRate(config, rateCurve, timeToExpiration);
+
+      const calls = applyDealerModel(
+        filterLiquidOptions(
+          (chain?.calls || [])
+            .filter((opt: { strike: number }) => inRange(opt.strike))
+            .map((opt: unknown) =>
+              processOption(
+                opt as OptionDataInput,
+                "call",
+                currentPrice,
+                timeToExpiration,
+                expirationConfig,
+                dividends
+              )
+            ),
+          config
+        ).options,
+        currentPrice,
+        positioning
+      );
+      const puts = applyDealerModel(
+        filterLiquidOptions(
+          (chain?.puts || [])
+            .filter((opt: { strike: number }) => inRange(opt.strike))
+            .map((opt: unknown) =>
+              processOption(
+                opt as OptionDataInput,
+                "put",
+                currentPrice,
+                timeToExpiration,
+                expirationConfig,
+                dividends
+              )
+            ),
+          config
+        ).options,
+        currentPrice,
+        positioning
+      );
+      if (calls.length === 0 && puts.length === 0) return null;
+
+      return {
+        expirationDate: expDateStr,
+        isoDate: dateObj.toISOString(),
+        timeToExpiration,
+        calls,
+        puts,
+      };
+    })
+  );
+
+  return results.filter((r): r is ProcessedExpiration => r !== null);
+};
+
 /**
  * 사용자 지정 기간 히스토리 데이터를 기반으로 베타계수 직접 계산
  */
 const calculateManualBeta = async (
+  marketData: MarketDataProvider,
   symbol: string,
   benchmarkSymbol: string = "QQQ",
   months: number = 3
@@ -126,7 +450,7 @@ const calculateManualBeta = async (
     const [tickerResult, benchmarkResult] = await Promise.all([
       withRetry(
         () =>
-          yahooFinance.chart(symbol, {
+          marketData.chart(symbol, {
             period1,
             period2,
             interval: "1d",
@@ -135,7 +459,7 @@ const calculateManualBeta = async (
       ),
       withRetry(
         () =>
-          yahooFinance.chart(benchmarkSymbol, {
+          marketData.chart(benchmarkSymbol, {
             period1,
             period2,
             interval: "1d",
@@ -212,11 +536,19 @@ interface ExpirationAnalysis {
   putSupport: number;
   callWallOI: number; // Call Wall의 OI
   putWallOI: number; // Put Wall의 OI
-  gammaFlip: number;
-  volTrigger: number;
+  gammaFlip: number | null; // 범위 내 Flip 없으면 null (gammaFlipStatus 참고)
+  volTrigger: number | null;
+  gammaFlipStatus: GammaFlipStatus;
+  gammaFlipCrossings: GammaFlipCrossing[]; // ±10% 범위 내 모든 부호 전환 지점
   callGex: number;
   putGex: number;
   totalGex: number;
+  callDex: number; // 콜 딜러 델타 노출 합계
+  putDex: number; // 풋 딜러 델타 노출 합계
+  totalDex: number; // 순 딜러 델타 노출
+  dexProfile: StrikeDex[]; // 행사가별 딜러 델타 노출
+  totalVex: number; // Vanna 노출 (IV 1%p 변화당 딜러 델타 변화)
+  totalCex: number; // Charm 노출 (하루 경과당 딜러 델타 변화)
   pcrAll: number; // 전체 스트라이크 기준
   pcrFiltered: number; // 필터링(±15%) 기준
   sentiment: number;
@@ -227,22 +559,25 @@ interface ExpirationAnalysis {
     down: number;
     neutral: number;
   };
-  options: ProcessedOption[];
+  options: (ProcessedOption & StrikeOIChange)[]; // 행사가별 전 거래일 대비 OI 변화 포함
   expectedUpper: number; // 1-SD 상단
   expectedLower: number; // 1-SD 하단
+  straddleMove: number | null; // ATM 스트래들 가격 기반 기대 변동폭
+  straddleUpper: number | null;
+  straddleLower: number | null;
+  riskFreeRate: number | null; // 만기별 무위험 금리 (금리 곡선 보간)
+  maxPain: number | null; // 전체 체인 기준 Max Pain
+  oiCentroid: number | null; // OI 가중 평균 행사가 (±moneyness 필터 후)
+  pinStrike: number | null; // 현재가 ±1 SD 내 OI 최대 행사가
+  pinRisk: number | null; // 0~100 만기 핀 고정 가능성
   // 경고 시스템: 현재가가 Call Wall 근처에 있고 Put OI가 많으면 숏 찬스
   trapWarning: {
     isNearCallWall: boolean;
     putOIDominance: boolean;
     message: string;
   } | undefined;
-  // 전일 대비 OI 변화율
-  oiChange: {
-    callWallOIChange: number | null;
-    putWallOIChange: number | null;
-    totalCallOIChange: number | null;
-    totalPutOIChange: number | null;
-  };
+  // 전 거래일 스냅샷 대비 OI 변화율 (스냅샷 없으면 null + reason)
+  oiChange: OIChange;
   // Volume/OI 비율 (새 포지션 vs 롤오버 판단)
   volumeOIRatio: {
     callWall: number;
@@ -250,6 +585,8 @@ interface ExpirationAnalysis {
     totalCall: number;
     totalPut: number;
   };
+  skew: IvSkew | null; // IV 스큐 / 스마일 (옵션 체인 없는 차트 대체 데이터는 null)
+  riskNeutral: RiskNeutralDistribution | null; // 위험중립 확률 분포 (Breeden–Litzenberger)
 }
 
 interface TickerTimeSeriesData {
@@ -285,6 +622,7 @@ interface TickerAnalysis {
   segmentedTrends?: SegmentedTrend[];
   sentimentRoadmap?: SentimentRoadmap[];
   trendForecast?: TrendForecast[]; // ✅ 추가된 필드
+  config: AnalysisConfig; // 적용된 분석 파라미터
 }
 
 interface DiagnosticDetail {
@@ -293,6 +631,8 @@ interface DiagnosticDetail {
   error?: string;
   callsProcessed?: number;
   putsProcessed?: number;
+  excludedZeroBid?: number; // 유동성 필터로 제외된 옵션 수
+  excludedWideSpread?: number;
 }
 
 interface Diagnostics {
@@ -300,19 +640,9 @@ interface Diagnostics {
   currentPrice: number | null;
   expirationsCount: number;
   details: DiagnosticDetail[];
-  serverLogs: string[]; // 프론트엔드로 보낼 서버 로그 저장용
-}
+  liquidityExcluded: { zeroBid: number; wideSpread: number }; // 전 만기 합산
 
-interface SwingScenario {
-  entryDate: string;
-  exitDate: string;
-  entryPrice: number;
-  exitPrice: number; // Base Target (현실적 목표)
-  extensionPrice: number; // Extension Target (최대 목표)
-  profit: number; // Base Profit (%)
-  extensionProfit: number; // Extension Profit (%)
-  probability: number; // 시나리오 성공 확률 (%)
-  description: string;
+  serverLogs: string[]; // 프론트엔드로 보낼 서버 로그 저장용
 }
 
 interface TrendForecast {
@@ -366,6 +696,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
     currentPrice: null,
     expirationsCount: 0,
     details: [],
+    liquidityExcluded: { zeroBid: 0, wideSpread: 0 },
     serverLogs: [],
   };
 
@@ -374,12 +705,29 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
     diagnostics.serverLogs.push(`[${new Date().toLocaleTimeString()}] ${msg}`);
   };
 
+  const marketData = getMarketData(request);
+  const snapshotArchive = getSnapshotArchive(request);
+
+  let analysisConfig: AnalysisConfig;
+  let dealerPositioning: DealerPositioning;
+  try {
+    analysisConfig = getAnalysisConfig(request);
+    dealerPositioning = extractDealerPositioning(
+      request.query as Record<string, unknown>,
+      request.body
+    );
+  } catch (error) {
+    return response.status(400).json({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
   try {
     const symbol = String(request.query.symbol || "QQQ").trim().toUpperCase();
     diagnostics.step = "fetch_quote";
     addLog(`${symbol} 시세 데이터 가져오는 중...`);
     const quote = await withRetry(
-      () => yahooFinance.quote(symbol),
+      () => marketData.quote(symbol),
       `${symbol} quote`,
       addLog
     );
@@ -415,7 +763,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           : now.subtract(6, "month");
       const chart = await withRetry(
         () =>
-          yahooFinance.chart(chartSymbol, {
+          marketData.chart(chartSymbol, {
             period1: period1.format("YYYY-MM-DD"),
             period2: now.format("YYYY-MM-DD"),
             interval: "1d",
@@ -433,11 +781,19 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           putSupport: close * 0.99,
           callWallOI: 0,
           putWallOI: 0,
-          gammaFlip: close,
-          volTrigger: close,
+          gammaFlip: null,
+          volTrigger: null,
+          gammaFlipStatus: "no_data",
+          gammaFlipCrossings: [],
           callGex: 0,
           putGex: 0,
           totalGex: 0,
+          callDex: 0,
+          putDex: 0,
+          totalDex: 0,
+          dexProfile: [],
+          totalVex: 0,
+          totalCex: 0,
           pcrAll: 0,
           pcrFiltered: 0,
           sentiment: 0,
@@ -451,19 +807,24 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           options: [],
           expectedUpper: close * 1.02,
           expectedLower: close * 0.98,
+          straddleMove: null,
+          straddleUpper: null,
+          straddleLower: null,
+          riskFreeRate: null,
+          maxPain: null,
+          oiCentroid: null,
+          pinStrike: null,
+          pinRisk: null,
           trapWarning: undefined,
-          oiChange: {
-            callWallOIChange: null,
-            putWallOIChange: null,
-            totalCallOIChange: null,
-            totalPutOIChange: null,
-          },
+          oiChange: unavailableOIChange("no_prior_snapshot"),
           volumeOIRatio: {
             callWall: 0,
             putWall: 0,
             totalCall: 0,
             totalPut: 0,
           },
+          skew: null,
+          riskNeutral: null,
         };
       });
       if (!chartTimeSeriesOverride || chartTimeSeriesOverride.length === 0) {
@@ -476,7 +837,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
     if (symbol === "QQQ") {
       try {
         const nqQuote = await withRetry(
-          () => yahooFinance.quote("NQ=F"),
+          () => marketData.quote("NQ=F"),
           "NQ=F quote",
           addLog
         );
@@ -501,7 +862,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
     let currentVix: number | null = null;
     try {
       const vixQuote = await withRetry(
-        () => yahooFinance.quote("^VIX"),
+        () => marketData.quote("^VIX"),
         "^VIX quote",
         addLog
       );
@@ -520,12 +881,48 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
       );
     }
 
+    // VXN (나스닥100 변동성 지수) 현재값 - IV 기간 구조 비교용
+    let currentVxn: number | null = null;
+    try {
+      const vxnQuote = await withRetry(
+        () => marketData.quote("^VXN"),
+        "^VXN quote",
+        addLog
+      );
+      currentVxn =
+        vxnQuote.regularMarketPrice ??
+        vxnQuote.regularMarketPreviousClose ??
+        null;
+      if (currentVxn !== null) {
+        addLog(`VXN: ${currentVxn.toFixed(2)}`);
+      }
+    } catch (error) {
+      addLog(
+        `[Warning] VXN quote failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    // ✅ 만기별 무위험 금리 곡선 (파일 → ^IRX → riskFreeRate 상수)
+    const rateCurve = await resolveRateCurve(
+      request,
+      marketData,
+      analysisConfig,
+      addLog
+    );
+    addLog(
+      `금리 곡선 (${rateCurve.source}): ${rateCurve.points
+        .map((point) => `${point.days}d ${(point.rate * 100).toFixed(2)}%`)
+        .join(", ")}`
+    );
+
     // ✅ VIX 히스토리 데이터 가져오기 (과거 날짜용)
     const vixHistoryMap = new Map<string, number>();
     try {
       const vixChart = await withRetry(
         () =>
-          yahooFinance.chart("^VIX", {
+          marketData.chart("^VIX", {
             period1: now.subtract(60, "day").format("YYYY-MM-DD"),
             period2: now.format("YYYY-MM-DD"),
             interval: "1d",
@@ -553,21 +950,16 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
 
     diagnostics.step = "fetch_expiration_dates";
     addLog(`${symbol} 옵션 만기일 목록 가져오는 중...`);
-    const optionChain = await withRetry(
-      () => yahooFinance.options(symbol),
+    const rawExpirationDates = await withRetry(
+      () => marketData.optionExpirations(symbol),
       `${symbol} options`,
       addLog
     );
 
-    if (
-      !optionChain ||
-      !optionChain.expirationDates ||
-      optionChain.expirationDates.length === 0
-    ) {
+    if (!rawExpirationDates || rawExpirationDates.length === 0) {
       throw new Error("만기일 데이터를 가져오지 못했습니다.");
     }
 
-    const rawExpirationDates = optionChain.expirationDates;
     diagnostics.expirationsCount = rawExpirationDates.length;
     addLog(`총 ${rawExpirationDates.length}개의 만기일 발견`);
 
@@ -586,87 +978,29 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
         ? todayStart.add(1, "year")
         : todayStart.add(30, "day");
 
-    // ✅ 전일 날짜 계산 (거래일 기준, 주말/공휴일 제외)
-    let previousTradingDay = now.subtract(1, "day");
-    // 주말이면 금요일로, 월요일이면 금요일로
-    while (previousTradingDay.day() === 0 || previousTradingDay.day() === 6) {
-      previousTradingDay = previousTradingDay.subtract(1, "day");
-    }
-    const previousTradingDayStr = previousTradingDay.format("YYYY-MM-DD");
-    addLog(`전일 거래일: ${previousTradingDayStr}`);
-
-    // ✅ 전일 옵션 데이터 가져오기 (첫 번째 만기일 기준)
-    let previousDayData: {
-      callWallOI: number;
-      putWallOI: number;
-      totalCallOI: number;
-      totalPutOI: number;
-    } | null = null;
-    try {
-      const prevOptionChain = await withRetry(
-        () => yahooFinance.options(symbol),
-        `${symbol} options (prev)`,
-        addLog
-      );
-      if (prevOptionChain?.expirationDates?.length > 0) {
-        // 전일의 첫 번째 만기일 (오늘 만기일과 동일할 가능성 높음)
-        const prevFirstExp = prevOptionChain.expirationDates[0];
-        const prevDetails = await withRetry(
-          () =>
-            yahooFinance.options(symbol, {
-              date: prevFirstExp as Date,
-            }),
-          `${symbol} options ${formatExpirationDate(prevFirstExp as Date)}`,
-          addLog
+    // ✅ 전 거래일 옵션 스냅샷 로드 (아카이브 기준, 만기/행사가 매칭으로 OI 변화 산출)
+    let priorSession: PriorSession | null = null;
+    let oiChangeUnavailableReason: OIChangeUnavailableReason = "archive_disabled";
+    if (snapshotArchive) {
+      oiChangeUnavailableReason = "no_prior_snapshot";
+      try {
+        priorSession = await loadPriorSession(
+          snapshotArchive,
+          symbol,
+          now.format("YYYY-MM-DD")
+        );
+        addLog(
+          priorSession
+            ? `전 거래일 스냅샷: ${priorSession.sessionDate} (${priorSession.byExpiration.size}개 만기)`
+            : "전 거래일 스냅샷 없음: OI 변화율 미산출"
+        );
+      } catch (error) {
+        addLog(
+          `[Warning] 전 거래일 스냅샷 로드 실패: ${
+            error instanceof Error ? error.message : String(error)
+          }`
         );
-        const prevExpData = prevDetails?.options?.[0];
-        if (prevExpData) {
-          const prevCalls = prevExpData.calls || [];
-          const prevPuts = prevExpData.puts || [];
-          const prevCallOI = prevCalls.reduce(
-            (acc, opt) => acc + (Number(opt.openInterest) || 0),
-            0
-          );
-          const prevPutOI = prevPuts.reduce(
-            (acc, opt) => acc + (Number(opt.openInterest) || 0),
-            0
-          );
-          // 전일 Call/Put Wall 찾기
-          const prevCallWall = prevCalls
-            .filter((c) => Number(c.strike) >= currentPrice * 0.95)
-            .reduce(
-              (p, c) =>
-                (Number(c.openInterest) || 0) > (Number(p.openInterest) || 0)
-                  ? c
-                  : p,
-              prevCalls[0]
-            );
-          const prevPutWall = prevPuts
-            .filter((p) => Number(p.strike) <= currentPrice * 1.05)
-            .reduce(
-              (p, c) =>
-                (Number(c.openInterest) || 0) > (Number(p.openInterest) || 0)
-                  ? c
-                  : p,
-              prevPuts[0]
-            );
-          previousDayData = {
-            callWallOI: Number(prevCallWall?.openInterest) || 0,
-            putWallOI: Number(prevPutWall?.openInterest) || 0,
-            totalCallOI: prevCallOI,
-            totalPutOI: prevPutOI,
-          };
-          addLog(
-            `전일 데이터: Call OI=${prevCallOI.toLocaleString()}, Put OI=${prevPutOI.toLocaleString()}`
-          );
-        }
       }
-    } catch (error) {
-      addLog(
-        `[Warning] 전일 데이터 가져오기 실패: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
     }
 
     // ✅ IB 영역 계산 (장 시작 30분 고점/저점)
@@ -676,7 +1010,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
       const todayStr = now.format("YYYY-MM-DD");
       const chartData = await withRetry(
         () =>
-          yahooFinance.chart(symbol, {
+          marketData.chart(symbol, {
             period1: todayStr,
             period2: todayStr,
             interval: "1m",
@@ -762,7 +1096,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
 
     diagnostics.step = "process_expirations";
     const results = await Promise.all(
-      finalExpirations.map(async (d) => {
+      finalExpirations.map(async (d): Promise<ExpirationAnalysis | null> => {
         const originalDate = d; // ✅ 야후 API 호출용 원본 객체 보존
         const dateString = String(originalDate);
         try {
@@ -775,17 +1109,12 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
             .minute(0)
             .second(0);
 
-          const details = await withRetry(
-            () =>
-              yahooFinance.options(symbol, {
-                date: originalDate, // ✅ 야후 API에는 원래의 Date 객체 전달
-              }),
+          const expirationData = await withRetry(
+            () => marketData.optionChain(symbol, originalDate), // ✅ 공급자에는 원래의 Date 객체 전달
             `${symbol} options ${formatExpirationDate(originalDate)}`,
             addLog
           );
 
-          const expirationData = details?.options?.[0];
-
           if (
             !expirationData ||
             (!expirationData.calls?.length && !expirationData.puts?.length)
@@ -794,12 +1123,44 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
             return null;
           }
 
+          // ✅ 옵션 체인 스냅샷 아카이브 저장 (과거 체인 히스토리 축적용)
+          if (snapshotArchive) {
+            snapshotArchive
+              .save({
+                symbol,
+                expirationDate: expDateStr,
+                spot: currentPrice,
+                source: "analysis",
+                calls: expirationData.calls || [],
+                puts: expirationData.puts || [],
+              })
+              .catch((error) =>
+                addLog(
+                  `[Warning] ${expDateStr} 스냅샷 저장 실패: ${
+                    error instanceof Error ? error.message : String(error)
+                  }`
+                )
+              );
+          }
+
           // ✅ 잔존 만기 계산 (0DTE 대응)
           const timeDiff = dateObj.diff(now, "year", true);
 
           // 이미 만료된 경우 (시간이 마감 시간을 지난 경우) 에너지를 0으로 만들기 위해 아주 작은 값 부여 또는 제외
           const isExpired = timeDiff <= 0;
           const timeToExpiration = isExpired ? 0.000001 : timeDiff;
+          // ✅ 만기 전 배당락 (배당 일정 설정 시 escrowed 기초자산으로 IV / Gamma 계산)
+          const dividends = toDiscreteDividends(
+            getDividendEvents(request, symbol),
+            now,
+            timeToExpiration
+          );
+          // ✅ 만기별 무위험 금리 (processOption / IV 역산 / 스큐 / 위험중립 분포에 적용)
+          const expirationConfig = withExpirationRate(
+            analysisConfig,
+            rateCurve,
+            timeToExpiration
+          );
 
           // 1) 전체 데이터 기준 PCR 계산 (보정 로직 적용)
           const allCallsRaw = expirationData.calls || [];
@@ -827,7 +1188,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
             totalCallOI_All > 0 ? totalPutOI_All / totalCallOI_All : 0;
 
           // 2) 정밀 분석용 Moneyness ±10% 이내 필터링 (기존 15%에서 강화)
-          const filterRange = 0.1;
+          const filterRange = analysisConfig.moneynessFilter;
           const filteredCallsRaw = allCallsRaw.filter(
             (opt: { strike: number }) =>
               opt.strike > currentPrice * (1 - filterRange) &&
@@ -848,22 +1209,59 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           }
 
           // 옵션 처리 및 GEX 계산
-          const calls = filteredCallsRaw.map((opt: unknown) =>
-            processOption(
-              opt as OptionDataInput,
-              "call",
-              currentPrice,
-              timeToExpiration
-            )
+          // ✅ 유동성 필터 (설정 시 bid 0 / 스프레드 과대 옵션을 Wall·GEX 계산에서 제외)
+          const liquidCalls = filterLiquidOptions(
+            filteredCallsRaw.map((opt: unknown) =>
+              processOption(
+                opt as OptionDataInput,
+                "call",
+                currentPrice,
+                timeToExpiration,
+                expirationConfig,
+                dividends
+              )
+            ),
+            analysisConfig
           );
-          const puts = filteredPutsRaw.map((opt: unknown) =>
-            processOption(
-              opt as OptionDataInput,
-              "put",
-              currentPrice,
-              timeToExpiration
-            )
+          const liquidPuts = filterLiquidOptions(
+            filteredPutsRaw.map((opt: unknown) =>
+              processOption(
+                opt as OptionDataInput,
+                "put",
+                currentPrice,
+                timeToExpiration,
+                expirationConfig,
+                dividends
+              )
+            ),
+            analysisConfig
           );
+          // ✅ 선택한 딜러 포지셔닝 모델로 GEX / VEX / CEX 부호 적용 (기본 classic)
+          const calls = applyDealerModel(
+            liquidCalls.options,
+            currentPrice,
+            dealerPositioning
+          );
+          const puts = applyDealerModel(
+            liquidPuts.options,
+            currentPrice,
+            dealerPositioning
+          );
+          const excludedZeroBid = liquidCalls.zeroBid + liquidPuts.zeroBid;
+          const excludedWideSpread =
+            liquidCalls.wideSpread + liquidPuts.wideSpread;
+          diagnostics.liquidityExcluded.zeroBid += excludedZeroBid;
+          diagnostics.liquidityExcluded.wideSpread += excludedWideSpread;
+
+          if (calls.length === 0 && puts.length === 0) {
+            diagnostics.details.push({
+              date: dateString,
+              status: "illiquid",
+              excludedZeroBid,
+              excludedWideSpread,
+            });
+            return null;
+          }
 
           // 필터링된 데이터 기준 OI (확률 계산 및 Wall 추출용)
           const filteredCallOI = calls.reduce(
@@ -915,33 +1313,32 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           // ✅ Put Wall Volume 추출
           const putWallVolume = putWallOption?.volume ?? 0;
 
-          // ✅ 전일 대비 OI 변화율 계산
-          const oiChange = {
-            callWallOIChange:
-              previousDayData && previousDayData.callWallOI > 0
-                ? ((callWallOI - previousDayData.callWallOI) /
-                    previousDayData.callWallOI) *
-                  100
-                : null,
-            putWallOIChange:
-              previousDayData && previousDayData.putWallOI > 0
-                ? ((putWallOI - previousDayData.putWallOI) /
-                    previousDayData.putWallOI) *
-                  100
-                : null,
-            totalCallOIChange:
-              previousDayData && previousDayData.totalCallOI > 0
-                ? ((filteredCallOI - previousDayData.totalCallOI) /
-                    previousDayData.totalCallOI) *
-                  100
-                : null,
-            totalPutOIChange:
-              previousDayData && previousDayData.totalPutOI > 0
-                ? ((filteredPutOI - previousDayData.totalPutOI) /
-                    previousDayData.totalPutOI) *
-                  100
-                : null,
-          };
+          // ✅ 전 거래일 스냅샷 대비 OI 변화율 계산 (동일 만기/행사가 매칭)
+          const oiComparison = priorSession
+            ? calculateOIChange({
+                priorSession,
+                expirationDate: expDateStr,
+                calls: allCallsRaw,
+                puts: allPutsRaw,
+                callWallStrike: callWallOption?.strike ?? null,
+                putWallStrike: putWallOption?.strike ?? null,
+                strikeFilter: (strike) =>
+                  strike > currentPrice * (1 - filterRange) &&
+                  strike < currentPrice * (1 + filterRange),
+              })
+            : null;
+          const oiChange =
+            oiComparison?.oiChange ??
+            unavailableOIChange(oiChangeUnavailableReason);
+          const withStrikeOIChange = (
+            opt: ProcessedOption
+          ): ProcessedOption & StrikeOIChange => ({
+            ...opt,
+            ...(oiComparison?.strikeChange(opt.type, opt.strike) ?? {
+              previousOpenInterest: null,
+              oiChange: null,
+            }),
+          });
 
           // ✅ Volume/OI 비율 계산 (새 포지션 vs 롤오버 판단)
           const volumeOIRatio = {
@@ -955,16 +1352,38 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           const putGex = puts.reduce((acc, opt) => acc + (opt.gex || 0), 0);
           const totalGex = callGex + putGex;
 
+          // ✅ 딜러 델타 노출 (DEX): 행사가별 순 DEX 부호가 헤지 매수/매도 흐름의 경계
+          const callDex = calls.reduce((acc, opt) => acc + (opt.dex || 0), 0);
+          const putDex = puts.reduce((acc, opt) => acc + (opt.dex || 0), 0);
+          const totalDex = callDex + putDex;
+          const dexProfile = aggregateDexByStrike([...calls, ...puts]);
+
+          // ✅ 2차 흐름: Vanna(IV 변화) / Charm(시간 경과) 노출
+          const totalVex = [...calls, ...puts].reduce(
+            (acc, opt) => acc + (opt.vex || 0),
+            0
+          );
+          const totalCex = [...calls, ...puts].reduce(
+            (acc, opt) => acc + (opt.cex || 0),
+            0
+          );
+
           // 심리 지수(Sentiment) 계산
           const sentiment = calculateSentiment(callGex, putGex);
 
           // 4) 진짜 Gamma Flip (Spot-Scan 방식)
-          const gammaFlip = findTrueGammaFlip(
+          // 범위 내 부호 전환이 없으면 Flip/Trigger는 null, 상태로 구분
+          const flipResult = findTrueGammaFlip(
             [...calls, ...puts],
             currentPrice,
-            timeToExpiration
+            timeToExpiration,
+            expirationConfig
           );
-          const volTrigger = gammaFlip * VOLATILITY_TRIGGER_RATIO;
+          const gammaFlip = flipResult.flip;
+          const volTrigger =
+            gammaFlip !== null
+              ? gammaFlip * analysisConfig.volatilityTriggerRatio
+              : null;
 
           // 5) 옵션 분포 기반 가격 변동 확률 계산
           const priceProbability = calculatePriceProbabilities({
@@ -983,6 +1402,42 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
             calls,
             puts,
             timeToExpiration,
+            config: expirationConfig,
+          });
+          // 6-1) 시장 가격(ATM 스트래들) 기반 기대 변동폭 - 모델 밴드와 비교용
+          const straddle = calculateStraddleExpectedMove({
+            currentPrice,
+            calls,
+            puts,
+          });
+
+          // 6-2) IV 스큐 + 위험중립 분포
+          // 스큐는 ±moneyness 필터 전 전체 체인 기준 (25Δ가 필터 밖에 있을 수 있음)
+          const skew = calculateIvSkew({
+            calls: allCallsRaw,
+            puts: allPutsRaw,
+            spot: currentPrice,
+            timeToExpiration,
+            config: expirationConfig,
+          });
+          const riskNeutral = calculateRiskNeutralDistribution({
+            smile: skew.smile,
+            atmIv: skew.atmIv,
+            spot: currentPrice,
+            timeToExpiration,
+            callWall,
+            putWall,
+            config: expirationConfig,
+          });
+          // 6-3) Max Pain / OI 중심 / 핀 리스크 (0DTE·OPEX 핀 고정 판단)
+          const pinLevels = calculatePinLevels({
+            chainCalls: allCallsRaw,
+            chainPuts: allPutsRaw,
+            calls,
+            puts,
+            spot: currentPrice,
+            atmIv: skew.atmIv,
+            timeToExpiration,
           });
 
           // ✅ 진단 로그 추가 (Step 1)
@@ -994,9 +1449,9 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
               puts.length
             } | zeroGex: ${zeroGexCalls}/${zeroGexPuts} | callWall: ${callWall.toFixed(
               2
-            )}, putWall: ${putWall.toFixed(2)} | flip: ${gammaFlip.toFixed(
-              2
-            )} | totalGex: ${(totalGex / 1e9).toFixed(2)}B`
+            )}, putWall: ${putWall.toFixed(2)} | flip: ${
+              gammaFlip !== null ? gammaFlip.toFixed(2) : flipResult.status
+            } | totalGex: ${(totalGex / 1e9).toFixed(2)}B`
           );
 
           diagnostics.details.push({
@@ -1004,6 +1459,8 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
             status: "success",
             callsProcessed: calls.length,
             putsProcessed: puts.length,
+            excludedZeroBid,
+            excludedWideSpread,
           });
 
           // 7) 심리 지수 + 감마 플립을 반영한 예상 종가 산출
@@ -1022,8 +1479,10 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
 
           // ✅ 트랩 경고 시스템: 현재가가 Call Wall 근처에 있고 Put OI가 많으면 경고
           const priceToCallWallRatio = (currentPrice - callWall) / currentPrice;
-          const isNearCallWall = Math.abs(priceToCallWallRatio) < 0.01; // 1% 이내
-          const putOIDominance = putWallOI > callWallOI * 1.5; // Put OI가 Call OI의 1.5배 이상
+          const isNearCallWall =
+            Math.abs(priceToCallWallRatio) < analysisConfig.callWallProximity; // 기본 1% 이내
+          const putOIDominance =
+            putWallOI > callWallOI * analysisConfig.putDominanceRatio; // 기본 Put OI가 Call OI의 1.5배 이상
           const trapWarning =
             isNearCallWall && putOIDominance
               ? {
@@ -1042,9 +1501,17 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
             putWallOI,
             gammaFlip,
             volTrigger,
+            gammaFlipStatus: flipResult.status,
+            gammaFlipCrossings: flipResult.crossings,
             callGex,
             putGex,
             totalGex,
+            callDex,
+            putDex,
+            totalDex,
+            dexProfile,
+            totalVex,
+            totalCex,
             pcrAll,
             pcrFiltered,
             sentiment,
@@ -1055,12 +1522,19 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
               100,
             expectedPrice,
             priceProbability,
-            options: [...calls, ...puts],
+            options: [...calls, ...puts].map(withStrikeOIChange),
             expectedUpper,
             expectedLower,
+            straddleMove: straddle?.expectedMove ?? null,
+            straddleUpper: straddle?.upper ?? null,
+            straddleLower: straddle?.lower ?? null,
+            riskFreeRate: expirationConfig.riskFreeRate,
+            ...pinLevels,
             trapWarning,
             oiChange,
             volumeOIRatio,
+            skew,
+            riskNeutral,
           };
         } catch (e: unknown) {
           diagnostics.details.push({
@@ -1083,7 +1557,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
       };
 
     // ✅ 가중 평균 레벨 산출 (Step 2)
-    // 단일 만기(0DTE 등)에 의존하지 않고, 전체 만기의 레벨을 시간 가중치(1/sqrt(T))로 통합
+    // 단일 만기(0DTE 등)에 의존하지 않고, 전체 만기의 레벨을 시간 가중치(기본 1/sqrt(T))로 통합
     const calculateWeightedLevel = (
       items: ExpirationAnalysis[],
       key: "putSupport" | "callResistance" | "expectedLower" | "expectedUpper"
@@ -1098,7 +1572,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
             (1000 * 60 * 60 * 24 * 365),
           1 / 365
         );
-        const w = 1 / Math.sqrt(t); // 가까운 만기일수록 큰 가중치
+        const w = 1 / Math.pow(t, analysisConfig.expirationWeightExponent); // 가까운 만기일수록 큰 가중치
         wSum += w;
         vSum += r[key] * w;
       }
@@ -1120,8 +1594,65 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
     // ✅ 시장 전체 통합 감마 플립 산출 (피드백 반영: Aggregation Rule 적용)
     // 모든 유효 만기일의 옵션 데이터를 하나로 합쳐 거대한 GEX Profile 생성
     const allOptions = validResults.flatMap((r) => r.options);
-    const globalGammaFlip = findTrueGammaFlip(allOptions, currentPrice, 0.1); // 평균적인 시간 가중치 적용
-    const globalVolTrigger = globalGammaFlip * VOLATILITY_TRIGGER_RATIO;
+    const globalFlipResult = findTrueGammaFlip(
+      allOptions,
+      currentPrice,
+      0.1, // 평균적인 시간 가중치 적용
+      analysisConfig
+    );
+    const globalGammaFlip = globalFlipResult.flip;
+    // ✅ 포지셔닝 모델별 비교 (같은 옵션 집합, 통합 플립과 같은 시간 가중치)
+    const dealerModelComparison: DealerModelSummary[] = compareDealerModels(
+      allOptions,
+      currentPrice,
+      0.1,
+      dealerPositioning.overrides,
+      analysisConfig
+    );
+    const globalVolTrigger =
+      globalGammaFlip !== null
+        ? globalGammaFlip * analysisConfig.volatilityTriggerRatio
+        : null;
+    // Flip이 없으면 범위 전체의 GEX 부호로 국면 판단 (전부 양수 = 안정)
+    const isStabilizing =
+      globalGammaFlip !== null
+        ? currentPrice > globalGammaFlip
+        : globalFlipResult.status === "all_positive";
+
+    // ✅ 전 만기 통합 DEX Profile (행사가별 합산)
+    const dexProfile = aggregateDexByStrike(allOptions);
+    const totalDex = dexProfile.reduce((acc, row) => acc + row.netDex, 0);
+
+    // ✅ 전 만기 VEX/CEX + 다음 세션 Charm 재헤지 (다음 세션 전에 만기되는 옵션 제외)
+    const totalVex = validResults.reduce((acc, r) => acc + r.totalVex, 0);
+    const totalCex = validResults.reduce((acc, r) => acc + r.totalCex, 0);
+    const nextSession = getNextSessionDate(now);
+    const nextSessionStr = nextSession.format("YYYY-MM-DD");
+    const charmRehedge: CharmRehedge = calculateCharmRehedge(
+      validResults
+        .filter((r) => dayjs(r.isoDate).utc().format("YYYY-MM-DD") >= nextSessionStr)
+        .flatMap((r) => r.options),
+      nextSessionStr,
+      nextSession.diff(now.startOf("day"), "day")
+    );
+
+    // ✅ ATM IV 기간 구조 (만기별 스큐의 ATM IV 사용)
+    const ivTermStructure: IvTermStructure = buildIvTermStructure({
+      points: validResults.flatMap((r) =>
+        r.skew && r.skew.atmIv !== null
+          ? [
+              {
+                date: r.date,
+                isoDate: r.isoDate,
+                days: Math.max(dayjs(r.isoDate).diff(now, "day", true), 1 / 1440),
+                atmIv: r.skew.atmIv,
+              },
+            ]
+          : []
+      ),
+      vix: currentVix,
+      vxn: currentVxn,
+    });
 
     const recommendations = generateRecommendations(
       realisticSupport,
@@ -1130,101 +1661,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
     );
 
     // 5) 복합 일자별 스윙 시나리오 도출 (다양한 기간 조합 탐색)
-    const swingScenarios: SwingScenario[] = [];
-    if (validResults.length >= 2) {
-      // 요일 계산 헬퍼
-      const getDayName = (isoDate: string) => {
-        const days = ["일", "월", "화", "수", "목", "금", "토"];
-        try {
-          const date = new Date(isoDate);
-          return days[date.getDay()];
-        } catch {
-          return "";
-        }
-      };
-
-      // 모든 가능한 [진입일 - 청산일] 조합 탐색 (최대 4일 간격까지, 5일 이내 데이터로 제한)
-      const combinations: SwingScenario[] = [];
-      const scenarioLimit = 5;
-      const targetResults = validResults.slice(0, scenarioLimit);
-
-      for (let i = 0; i < targetResults.length; i++) {
-        for (let j = i + 1; j < targetResults.length; j++) {
-          const entry = targetResults[i];
-          const exit = targetResults[j];
-
-          const entryDay = getDayName(entry.isoDate);
-          const exitDay = getDayName(exit.isoDate);
-          const duration = j - i;
-
-          // ✅ 현실적인 진입/청산가 산출 (Wall과 1-SD 기대값의 보수적 조합)
-          // 지지선(entry): Wall과 1-SD 중 현재가에 더 가까운(높은) 값을 선택
-          // 저항선(exit): Wall과 1-SD 중 현재가에 더 가까운(낮은) 값을 선택
-          const realisticEntry = Math.max(
-            entry.putSupport,
-            entry.expectedLower
-          );
-          const realisticExit = Math.min(
-            exit.callResistance,
-            exit.expectedUpper
-          );
-
-          const baseTarget = realisticExit * 0.995; // 현실적인 1차 목표가
-          const extensionTarget = realisticExit;
-
-          const profit = ((baseTarget - realisticEntry) / realisticEntry) * 100;
-          const extensionProfit =
-            ((extensionTarget - realisticEntry) / realisticEntry) * 100;
-
-          // ✅ 시나리오 확률 계산
-          // 1) 청산 시점의 상승 확률 반영
-          // 2) 진입-청산 간 심리 지수 개선도 반영
-          // 3) GEX 에너지 증가 여부 반영
-          const sentimentImprovement = exit.sentiment - entry.sentiment;
-          const gexTrend = exit.totalGex > entry.totalGex ? 5 : -5;
-          let scenarioProb =
-            55 +
-            sentimentImprovement * 0.4 +
-            gexTrend +
-            (exit.priceProbability.up - exit.priceProbability.down) * 0.2;
-
-          // 기간이 길어질수록 불확실성 증가 (보정)
-          scenarioProb -= duration * 2;
-          scenarioProb = Math.round(Math.max(35, Math.min(80, scenarioProb)));
-
-          // 수익률이 0보다 큰 경우만 시나리오에 추가
-          if (profit > 0) {
-            combinations.push({
-              entryDate: `${entry.date}(${entryDay})`,
-              exitDate: `${exit.date}(${exitDay})`,
-              entryPrice: realisticEntry,
-              exitPrice: baseTarget,
-              extensionPrice: extensionTarget,
-              profit,
-              extensionProfit,
-              probability: scenarioProb,
-              description: `${duration}일 스윙: ${entryDay}요일 진입($${realisticEntry.toFixed(
-                2
-              )}) → ${exitDay}요일 목표($${baseTarget.toFixed(
-                2
-              )}) 시나리오 (1-SD 범위 기반)`,
-            });
-          }
-        }
-      }
-
-      // 수익률이 높은 상위 3개 시나리오만 선택 (단기 우선 정렬 추가)
-      swingScenarios.push(
-        ...combinations
-          .sort((a, b) => {
-            // 확률 70% 이상인 것들을 최우선
-            if (a.probability >= 70 && b.probability < 70) return -1;
-            if (b.probability >= 70 && a.probability < 70) return 1;
-            return b.profit - a.profit;
-          })
-          .slice(0, 3)
-      );
-    }
+    const swingScenarios = buildSwingScenarios(validResults, analysisConfig);
     // ✅ 세부 구간별 상승/하락 추세 도출 (가격 레벨 이동 기준 반영)
     const getPriceLevel = (r: ExpirationAnalysis) =>
       (Math.max(r.putSupport, r.expectedLower) +
@@ -1382,9 +1819,13 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
       options: validResults[0].options,
       totalNetGEX: `${(validResults[0].totalGex / 1e9).toFixed(2)}B USD/1%`,
       // 리서치 제언: 가격이 감마 플립보다 위에 있으면 안정(Stabilizing), 아래면 변동(Volatile)
-      marketRegime: currentPrice > globalGammaFlip ? "Stabilizing" : "Volatile",
-      gammaFlip: globalGammaFlip, // ✅ 통합 글로벌 플립 적용
-      volTrigger: globalVolTrigger, // ✅ 통합 글로벌 트리거 적용
+      marketRegime: isStabilizing ? "Stabilizing" : "Volatile",
+      gammaFlip: globalGammaFlip, // ✅ 통합 글로벌 플립 적용 (없으면 null)
+      volTrigger: globalVolTrigger, // ✅ 통합 글로벌 트리거 적용 (없으면 null)
+      gammaFlipStatus: globalFlipResult.status, // flip / all_positive / all_negative / no_data
+      gammaFlipCrossings: globalFlipResult.crossings,
+      dealerModel: dealerPositioning.model, // 적용된 딜러 포지셔닝 모델
+      dealerModelComparison, // 모델별 GEX / Gamma Flip 비교
       timeSeries: useChartTimeSeries
         ? chartTimeSeriesOverride ?? []
         : validResults.map((result) => {
@@ -1414,9 +1855,16 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           putWallOI: result.putWallOI,
           gammaFlip: result.gammaFlip,
           volTrigger: result.volTrigger,
+          gammaFlipStatus: result.gammaFlipStatus,
+          gammaFlipCrossings: result.gammaFlipCrossings,
           callGex: result.callGex,
           putGex: result.putGex,
           totalGex: result.totalGex,
+          callDex: result.callDex,
+          putDex: result.putDex,
+          totalDex: result.totalDex,
+          totalVex: result.totalVex,
+          totalCex: result.totalCex,
           pcrAll: result.pcrAll,
           pcrFiltered: result.pcrFiltered,
           sentiment: result.sentiment,
@@ -1425,16 +1873,33 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
           priceProbability: result.priceProbability,
           expectedUpper: result.expectedUpper,
           expectedLower: result.expectedLower,
+          straddleMove: result.straddleMove, // ATM 스트래들 기대 변동폭
+          straddleUpper: result.straddleUpper,
+          straddleLower: result.straddleLower,
+          riskFreeRate: result.riskFreeRate, // 만기별 무위험 금리
+          maxPain: result.maxPain, // Max Pain
+          oiCentroid: result.oiCentroid, // OI 가중 평균 행사가
+          pinStrike: result.pinStrike,
+          pinRisk: result.pinRisk, // 핀 리스크 (0~100)
           vix: vixForDate, // 각 만기일 날짜에 해당하는 VIX
           trapWarning: result.trapWarning, // 트랩 경고 추가
           oiChange: result.oiChange, // 전일 대비 OI 변화율
           volumeOIRatio: result.volumeOIRatio, // Volume/OI 비율
+          skew: result.skew, // IV 스큐 / 스마일
+          riskNeutral: result.riskNeutral, // 위험중립 확률 분포
         };
       }),
       ibZone: ibHigh && ibLow ? { high: ibHigh, low: ibLow } : null, // IB 영역
       callResistance: aggResistance,
       putSupport: aggSupport,
       totalGex: validResults[0].totalGex,
+      totalDex, // 전 만기 합산 순 DEX
+      dexProfile, // 전 만기 합산 행사가별 DEX
+      totalVex, // 전 만기 합산 Vanna 노출
+      totalCex, // 전 만기 합산 Charm 노출
+      charmRehedge, // 다음 세션 Charm 기반 딜러 재헤지 추정
+      ivTermStructure, // ATM IV 기간 구조 + VIX/VXN 비교
+      rateCurve, // 무위험 금리 곡선 (file / irx / constant)
       recommendations: recommendations.map((rec) => ({
         ...rec,
         priceRange: `${rec.min.toFixed(2)} - ${rec.max.toFixed(2)}`,
@@ -1443,6 +1908,7 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
       trendForecast,
       segmentedTrends, // ✅ 추가된 필드
       sentimentRoadmap, // ✅ 추가된 필드
+      config: analysisConfig, // 적용된 분석 파라미터 (재현용)
       diagnostics,
     });
   } catch (err: unknown) {
@@ -1457,26 +1923,327 @@ app.get("/api/analysis", async (request: Request, response: Response) => {
   }
 });
 
+/**
+ * Gamma Profile: 가상 Spot 그리드 위의 Net GEX 곡선 (만기별 + 전 만기 합산)
+ * - range: 현재가 대비 탐색 범위 (기본 0.1 = ±10%), step: 간격 (기본 0.0025 = 0.25%)
+ * - days: 포함할 만기 기간 (기본 30일)
+ */
+app.get("/api/gex-profile", async (req: Request, res: Response) => {
+  const symbol = String(req.query.symbol || "QQQ").trim().toUpperCase();
+  const range = req.query.range === undefined ? 0.1 : Number(req.query.range);
+  const step = req.query.step === undefined ? 0.0025 : Number(req.query.step);
+  const days = req.query.days === undefined ? 30 : Number(req.query.days);
+
+  if (!(range > 0 && range <= 0.5)) {
+    return res.status(400).json({ error: "range는 0 초과 0.5 이하여야 합니다." });
+  }
+  if (!(step > 0 && step <= range) || range / step > 400) {
+    return res
+      .status(400)
+      .json({ error: "step은 0 초과 range 이하이며, 그리드는 최대 801개입니다." });
+  }
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return res.status(400).json({ error: "days는 1~365 사이 정수여야 합니다." });
+  }
+
+  let analysisConfig: AnalysisConfig;
+  let dealerPositioning: DealerPositioning;
+  try {
+    analysisConfig = getAnalysisConfig(req);
+    dealerPositioning = extractDealerPositioning(
+      req.query as Record<string, unknown>,
+      req.body
+    );
+  } catch (error) {
+    return res.status(400).json({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const marketData = getMarketData(req);
+  try {
+    const quote = await withRetry(
+      () => marketData.quote(symbol),
+      `${symbol} quote`
+    );
+    const currentPrice = quote.regularMarketPrice || 0;
+    if (currentPrice <= 0) {
+      return res.status(500).json({ error: "현재가를 가져오지 못했습니다." });
+    }
+
+    const now = dayjs().tz("America/New_York");
+    const expirations = await loadProcessedExpirations({
+      marketData,
+      symbol,
+      currentPrice,
+      now,
+      config: analysisConfig,
+      positioning: dealerPositioning,
+      dividendEvents: getDividendEvents(req, symbol),
+      rateCurve: await resolveRateCurve(req, marketData, analysisConfig),
+      days,
+    });
+    if (expirations.length === 0) {
+      return res.status(404).json({ error: "분석 가능한 옵션 데이터가 없습니다." });
+    }
+
+    const grid = buildSpotGrid(currentPrice, range, step);
+    const profiles = expirations.map((exp) => {
+      const options = [...exp.calls, ...exp.puts];
+      const curve = calculateGexCurve(
+        options,
+        grid,
+        exp.timeToExpiration,
+        analysisConfig
+      );
+      const flipResult = analyzeGexCurve(curve, currentPrice);
+      return {
+        date: exp.expirationDate,
+        isoDate: exp.isoDate,
+        gammaFlip: flipResult.flip,
+        gammaFlipStatus: flipResult.status,
+        gammaFlipCrossings: flipResult.crossings,
+        ...findOIWalls(options, currentPrice),
+        curve,
+      };
+    });
+
+    // 각 만기의 잔존 기간을 그대로 반영한 곡선 합산
+    const aggregateCurve: GexCurvePoint[] = sumGexCurves(
+      profiles.map((profile) => profile.curve)
+    );
+    const aggregateFlip = analyzeGexCurve(aggregateCurve, currentPrice);
+
+    res.json({
+      symbol,
+      currentPrice,
+      grid: { range, step, points: grid.length },
+      aggregate: {
+        gammaFlip: aggregateFlip.flip,
+        gammaFlipStatus: aggregateFlip.status,
+        gammaFlipCrossings: aggregateFlip.crossings,
+        ...findOIWalls(
+          expirations.flatMap((exp) => [...exp.calls, ...exp.puts]),
+          currentPrice
+        ),
+        curve: aggregateCurve,
+      },
+      expirations: profiles,
+      dealerModel: dealerPositioning.model,
+      config: analysisConfig,
+    });
+  } catch (err: unknown) {
+    console.error("GEX Profile Error:", err);
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: errorMsg });
+  }
+});
+
+/**
+ * GEX Heatmap: 행사가 × 만기 매트릭스 (Call/Put/Net GEX, OI)
+ * - days: 포함할 만기 기간 (기본 30일)
+ */
+app.get("/api/gex-heatmap", async (req: Request, res: Response) => {
+  const symbol = String(req.query.symbol || "QQQ").trim().toUpperCase();
+  const days = req.query.days === undefined ? 30 : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return res.status(400).json({ error: "days는 1~365 사이 정수여야 합니다." });
+  }
+
+  let analysisConfig: AnalysisConfig;
+  let dealerPositioning: DealerPositioning;
+  try {
+    analysisConfig = getAnalysisConfig(req);
+    dealerPositioning = extractDealerPositioning(
+      req.query as Record<string, unknown>,
+      req.body
+    );
+  } catch (error) {
+    return res.status(400).json({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const marketData = getMarketData(req);
+  try {
+    const quote = await withRetry(
+      () => marketData.quote(symbol),
+      `${symbol} quote`
+    );
+    const currentPrice = quote.regularMarketPrice || 0;
+    if (currentPrice <= 0) {
+      return res.status(500).json({ error: "현재가를 가져오지 못했습니다." });
+    }
+
+    const expirations = await loadProcessedExpirations({
+      marketData,
+      symbol,
+      currentPrice,
+      now: dayjs().tz("America/New_York"),
+      config: analysisConfig,
+      positioning: dealerPositioning,
+      dividendEvents: getDividendEvents(req, symbol),
+      rateCurve: await resolveRateCurve(req, marketData, analysisConfig),
+      days,
+    });
+    if (expirations.length === 0) {
+      return res.status(404).json({ error: "분석 가능한 옵션 데이터가 없습니다." });
+    }
+
+    res.json({
+      symbol,
+      currentPrice,
+      ...buildGexHeatmap(
+        expirations.map((exp) => ({
+          expiration: exp.expirationDate,
+          options: [...exp.calls, ...exp.puts],
+        }))
+      ),
+      dealerModel: dealerPositioning.model,
+      config: analysisConfig,
+    });
+  } catch (err: unknown) {
+    console.error("GEX Heatmap Error:", err);
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: errorMsg });
+  }
+});
+
+/**
+ * 0DTE 장중 분석
+ * - 당일 만기(없으면 가장 가까운 만기)만 호출 시점 현재가로 재계산
+ * - 콜/풋 월, 감마 플립 등을 장중 히스토리에 누적하고 세션 시작·직전 대비 이동량 반환
+ * - 공유 히스토리는 서버 기본 설정 + classic 모델 요청만 기록 (설정이 다른 포인트가 섞이지 않도록)
+ */
+app.get("/api/zero-dte", async (req: Request, res: Response) => {
+  const symbol = String(req.query.symbol || "QQQ").trim().toUpperCase();
+
+  let analysisConfig: AnalysisConfig;
+  let dealerPositioning: DealerPositioning;
+  try {
+    analysisConfig = getAnalysisConfig(req);
+    dealerPositioning = extractDealerPositioning(
+      req.query as Record<string, unknown>,
+      req.body
+    );
+  } catch (error) {
+    return res.status(400).json({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const marketData = getMarketData(req);
+  try {
+    const quote = await withRetry(
+      () => marketData.quote(symbol),
+      `${symbol} quote`
+    );
+    const currentPrice = quote.regularMarketPrice || 0;
+    if (currentPrice <= 0) {
+      return res.status(500).json({ error: "현재가를 가져오지 못했습니다." });
+    }
+
+    const now = dayjs().tz("America/New_York");
+    const rateCurve = await resolveRateCurve(req, marketData, analysisConfig);
+    const [expiration] = await loadProcessedExpirations({
+      marketData,
+      symbol,
+      currentPrice,
+      now,
+      config: analysisConfig,
+      positioning: dealerPositioning,
+      dividendEvents: getDividendEvents(req, symbol),
+      rateCurve,
+      maxExpirations: 1,
+    });
+    if (!expiration) {
+      return res.status(404).json({ error: "분석 가능한 옵션 데이터가 없습니다." });
+    }
+
+    const isZeroDte = expiration.expirationDate === now.format("YYYY-MM-DD");
+    const point = buildIntradayPoint({
+      calls: expiration.calls,
+      puts: expiration.puts,
+      spot: currentPrice,
+      timeToExpiration: expiration.timeToExpiration,
+      timestamp: now.toDate(),
+      config: withExpirationRate(
+        analysisConfig,
+        rateCurve,
+        expiration.timeToExpiration
+      ),
+    });
+    // 당일 만기가 아니거나 요청별 설정을 덮어쓴 경우 기록하지 않음
+    const baseConfig = req.app.locals.analysisConfig as AnalysisConfig;
+    let recorded =
+      isZeroDte &&
+      dealerPositioning.model === "classic" &&
+      (Object.keys(analysisConfig) as (keyof AnalysisConfig)[]).every(
+        (key) => analysisConfig[key] === baseConfig[key]
+      );
+    let history = [point];
+    if (recorded) {
+      // 저장 실패는 분석 실패로 보지 않음 (이번 포인트만 반환, recorded = false)
+      try {
+        history = await getIntradayHistory(req).record(
+          symbol,
+          expiration.expirationDate,
+          point
+        );
+      } catch (error) {
+        console.warn(
+          `[Warning] ${symbol} 0DTE 히스토리 저장 실패: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        recorded = false;
+      }
+    }
+
+    res.json({
+      symbol,
+      currentPrice,
+      expirationDate: expiration.expirationDate,
+      isZeroDte,
+      recorded,
+      timeToExpiration: expiration.timeToExpiration,
+      minutesToClose: Math.max(
+        0,
+        Math.round(dayjs(expiration.isoDate).diff(now, "minute", true))
+      ),
+      point,
+      shifts: calculateIntradayShifts(history),
+      history,
+      dealerModel: dealerPositioning.model,
+      config: analysisConfig,
+    });
+  } catch (err: unknown) {
+    console.error("0DTE Error:", err);
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: errorMsg });
+  }
+});
+
 /**
  * Yahoo Finance 원본 데이터 TXT 다운로드용
  */
 app.get("/api/yahoo-raw", async (request: Request, response: Response) => {
+  const marketData = getMarketData(request);
   try {
     const symbol = String(request.query.symbol || "QQQ").trim().toUpperCase();
     const quote = await withRetry(
-      () => yahooFinance.quote(symbol),
+      () => marketData.quote(symbol),
       `${symbol} quote`
     );
-    const optionChain = await withRetry(
-      () => yahooFinance.options(symbol),
+    const rawExpirationDates = await withRetry(
+      () => marketData.optionExpirations(symbol),
       `${symbol} options`
     );
 
-    if (!optionChain || !optionChain.expirationDates?.length) {
+    if (!rawExpirationDates?.length) {
       return response.status(500).json({ error: "만기일 데이터를 가져오지 못했습니다." });
     }
 
-    const rawExpirationDates = optionChain.expirationDates;
     const now = dayjs().tz("America/New_York");
     const todayStr = now.format("YYYY-MM-DD");
     const filterLimit = now.startOf("day").add(30, "day").format("YYYY-MM-DD");
@@ -1496,13 +2263,13 @@ app.get("/api/yahoo-raw", async (request: Request, response: Response) => {
 
     const optionsByExpiration = await Promise.all(
       finalExpirations.map(async (d) => {
-        const details = await withRetry(
-          () => yahooFinance.options(symbol, { date: d }),
+        const chain = await withRetry(
+          () => marketData.optionChain(symbol, d),
           `${symbol} options ${formatExpirationDate(d)}`
         );
         return {
           expirationDate: dayjs(d).utc().format("YYYY-MM-DD"),
-          details,
+          chain,
         };
       })
     );
@@ -1510,8 +2277,9 @@ app.get("/api/yahoo-raw", async (request: Request, response: Response) => {
     response.json({
       symbol,
       fetchedAt: new Date().toISOString(),
+      provider: marketData.name,
       quote,
-      optionChain,
+      expirationDates: rawExpirationDates,
       optionsByExpiration,
     });
   } catch (err: unknown) {
@@ -1545,9 +2313,19 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
     return res.status(400).json({ error: "티커 심볼이 필요합니다." });
   }
 
+  let analysisConfig: AnalysisConfig;
+  try {
+    analysisConfig = getAnalysisConfig(req);
+  } catch (error) {
+    return res.status(400).json({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const marketData = getMarketData(req);
   try {
     const quote = await withRetry(
-      () => yahooFinance.quote(String(symbol)),
+      () => marketData.quote(String(symbol)),
       `${symbol} quote`
     );
 
@@ -1560,6 +2338,7 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
     // 1) 지정 기간 히스토리 기반 베타 직접 계산 (사용자 선택 반영)
     const betaMonths = Number(months) || 3;
     const beta = await calculateManualBeta(
+      marketData,
       String(symbol),
       String(benchmarkSymbol || "QQQ"),
       betaMonths
@@ -1606,7 +2385,7 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
           callResistance: number;
           expectedUpper: number;
           expectedLower: number;
-          gammaFlip: number;
+          gammaFlip: number | null;
           sentiment: number;
           totalGex: number;
           expectedPrice: number;
@@ -1622,7 +2401,9 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
           const tAtQLower =
             currentPrice * (1 + beta * (q.expectedLower / qPrice - 1));
           const tAtQGammaFlip =
-            currentPrice * (1 + beta * (q.gammaFlip / qPrice - 1));
+            q.gammaFlip !== null
+              ? currentPrice * (1 + beta * (q.gammaFlip / qPrice - 1))
+              : null;
 
           // ✅ 2. 티커 기준의 상단(Upside)과 하단(Downside) 정의
           // 정방향: Upside(저항선), Downside(지지선)
@@ -1697,17 +2478,6 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
       const scenarioLimit = 5;
       const targetResults = tickerTimeSeries.slice(0, scenarioLimit);
 
-      // 요일 계산 헬퍼
-      const getDayName = (isoDate: string) => {
-        const days = ["일", "월", "화", "수", "목", "금", "토"];
-        try {
-          const date = new Date(isoDate);
-          return days[date.getDay()];
-        } catch {
-          return "";
-        }
-      };
-
       for (let i = 0; i < targetResults.length; i++) {
         for (let j = i + 1; j < targetResults.length; j++) {
           const entry = targetResults[i];
@@ -1719,7 +2489,7 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
 
           const entryPrice = entry.expectedSupport;
           const exitPrice = exit.expectedResistance;
-          const targetPrice = exitPrice * 0.995; // 보수적 목표가
+          const targetPrice = exitPrice * analysisConfig.swingBaseTargetRatio; // 보수적 목표가
 
           const profit = ((targetPrice - entryPrice) / entryPrice) * 100;
 
@@ -1739,11 +2509,18 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
               (exit.priceProbability.up - exit.priceProbability.down) * 0.2;
 
             scenarioProb -= duration * 2;
-            scenarioProb = Math.round(Math.max(35, Math.min(80, scenarioProb)));
+            scenarioProb = Math.round(
+              Math.max(
+                analysisConfig.swingProbabilityMin,
+                Math.min(analysisConfig.swingProbabilityMax, scenarioProb)
+              )
+            );
 
             combinations.push({
               entryDate: `${entry.date}(${entryDay})`,
               exitDate: `${exit.date}(${exitDay})`,
+              entryIsoDate: entry.isoDate,
+              exitIsoDate: exit.isoDate,
               entryPrice,
               exitPrice: targetPrice,
               extensionPrice: exitPrice,
@@ -1876,6 +2653,7 @@ app.post("/api/ticker-analysis", async (req: Request, res: Response) => {
       segmentedTrends: tickerSegmentedTrends,
       sentimentRoadmap: tickerSentimentRoadmap,
       trendForecast: tickerTrendForecast, // ✅ 추가된 필드
+      config: analysisConfig,
     };
 
     res.json(analysis);
@@ -1895,15 +2673,15 @@ app.get("/api/ticker-options/expirations", async (req: Request, res: Response) =
     return res.status(400).json({ error: "티커 심볼이 필요합니다." });
   }
 
+  const marketData = getMarketData(req);
   try {
-    const optionChain = await withRetry(
-      () => yahooFinance.options(symbol),
+    const rawExpirations = await withRetry(
+      () => marketData.optionExpirations(symbol),
       `${symbol} options`
     );
     const now = dayjs().tz("America/New_York");
     const expirationFilter =
       type === "monthly" ? isMonthlyExpiration : isWeeklyExpiration;
-    const rawExpirations = (optionChain?.expirationDates || []) as Date[];
     const expirations =
       type === "daily"
         ? getNextDailyExpirations(rawExpirations, now, 5)
@@ -1934,12 +2712,21 @@ app.get("/api/ticker-options/expiration", async (req: Request, res: Response) =>
     return res.status(400).json({ error: "티커 심볼과 만기일이 필요합니다." });
   }
 
+  let analysisConfig: AnalysisConfig;
   try {
-    const optionChain = await withRetry(
-      () => yahooFinance.options(symbol),
+    analysisConfig = getAnalysisConfig(req);
+  } catch (error) {
+    return res.status(400).json({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const marketData = getMarketData(req);
+  try {
+    const expirationDates = await withRetry(
+      () => marketData.optionExpirations(symbol),
       `${symbol} options`
     );
-    const expirationDates = optionChain?.expirationDates || [];
     const now = dayjs().tz("America/New_York");
     const expirationFilter =
       type === "monthly" ? isMonthlyExpiration : isWeeklyExpiration;
@@ -1959,14 +2746,10 @@ app.get("/api/ticker-options/expiration", async (req: Request, res: Response) =>
       return res.status(404).json({ error: "해당 만기일을 찾을 수 없습니다." });
     }
 
-    const details = await withRetry(
-      () =>
-        yahooFinance.options(symbol, {
-          date: targetDate as Date,
-        }),
-      `${symbol} options ${formatExpirationDate(targetDate as Date)}`
+    const expirationData = await withRetry(
+      () => marketData.optionChain(symbol, targetDate),
+      `${symbol} options ${formatExpirationDate(targetDate)}`
     );
-    const expirationData = details?.options?.[0];
 
     if (!expirationData) {
       return res.status(404).json({ error: "옵션 데이터를 찾을 수 없습니다." });
@@ -1999,7 +2782,7 @@ app.get("/api/ticker-options/expiration", async (req: Request, res: Response) =>
     const callWall = pickWall(calls);
     const putWall = pickWall(puts);
 
-    const quote = await yahooFinance.quote(symbol);
+    const quote = await marketData.quote(symbol);
     const spotPrice = quote?.regularMarketPrice || null;
 
     let avgIv: number | null = null;
@@ -2035,28 +2818,27 @@ app.get("/api/ticker-options/expiration", async (req: Request, res: Response) =>
 
     const mappedCalls = calls.map(mapOptionRow);
     const mappedPuts = puts.map(mapOptionRow);
-    const strikeSet = new Set<number>();
-    mappedCalls.forEach((opt) => strikeSet.add(opt.strike));
-    mappedPuts.forEach((opt) => strikeSet.add(opt.strike));
-    const strikes = Array.from(strikeSet).sort((a, b) => a - b);
-    const maxPain =
-      strikes.length > 0
-        ? strikes.reduce((best, price) => {
-            const callPain = mappedCalls.reduce(
-              (acc, opt) =>
-                acc + Math.max(0, price - opt.strike) * opt.openInterest,
-              0
-            );
-            const putPain = mappedPuts.reduce(
-              (acc, opt) =>
-                acc + Math.max(0, opt.strike - price) * opt.openInterest,
-              0
-            );
-            const total = callPain + putPain;
-            if (!best) return { price, total };
-            return total < best.total ? { price, total } : best;
-          }, null as { price: number; total: number } | null)?.price ?? null
-        : null;
+    const maxPain = calculateMaxPain(mappedCalls, mappedPuts);
+
+    // ✅ IV 스큐 / 스마일 (만기일 16:00 NY 기준 잔존 기간)
+    const timeToExpiration = Math.max(
+      dayjs
+        .tz(date, "America/New_York")
+        .hour(16)
+        .minute(0)
+        .second(0)
+        .diff(now, "year", true),
+      0.000001
+    );
+    const skew = spotPrice
+      ? calculateIvSkew({
+          calls,
+          puts,
+          spot: spotPrice,
+          timeToExpiration,
+          config: analysisConfig,
+        })
+      : null;
 
     const responsePayload = {
       symbol: symbol.toUpperCase(),
@@ -2075,6 +2857,7 @@ app.get("/api/ticker-options/expiration", async (req: Request, res: Response) =>
       } as TickerOptionSummary,
       calls: mappedCalls.sort((a, b) => a.strike - b.strike),
       puts: mappedPuts.sort((a, b) => a.strike - b.strike),
+      skew,
       links: {
         overview: `https://optioncharts.io/options/${symbol.toUpperCase()}`,
         expiration: `https://optioncharts.io/options/${symbol.toUpperCase()}/option-chain?expiration_dates=${date}:${
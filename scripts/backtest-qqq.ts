@@ -1,4 +1,3 @@
-import YahooFinance from "yahoo-finance2";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc.js";
 import timezone from "dayjs/plugin/timezone.js";
@@ -9,15 +8,71 @@ import {
   calculateGammaAdjustedExpectedPrice,
   calculatePriceProbabilities,
   calculateSentiment,
+  filterLiquidOptions,
   findTrueGammaFlip,
   generateRecommendations,
   processOption,
-  VOLATILITY_TRIGGER_RATIO,
+  type GammaFlipStatus,
   type OptionDataInput,
   type ProcessedOption,
   type PriceProbability,
   type Recommendation,
 } from "../api/analysis/metrics.js";
+import { buildSwingScenarios } from "../api/analysis/swingScenarios.js";
+import { loadAnalysisConfig, type AnalysisConfig } from "../api/analysis/config.js";
+import {
+  loadDividendSchedule,
+  upcomingDividends,
+  type DividendEvent,
+} from "../api/analysis/pricing.js";
+import {
+  constantRateCurve,
+  interpolateRate,
+  loadRateCurve,
+  type RateCurve,
+} from "../api/analysis/rateCurve.js";
+import { createMarketDataProvider } from "../api/data/marketDataProvider.js";
+import {
+  createSnapshotArchive,
+  DEFAULT_SNAPSHOT_DIR,
+  type SnapshotArchive,
+} from "../api/data/snapshotArchive.js";
+import {
+  loadStrategyConfig,
+  simulateStrategy,
+  type StrategyConfig,
+  type StrategyMetrics,
+  type StrategyResult,
+} from "./backtest/strategy.js";
+import {
+  buildCalibration,
+  scoreSwingScenario,
+  type SwingOutcome,
+} from "./backtest/swing.js";
+import {
+  buildComparisonReport,
+  type SymbolFailure,
+  type SymbolSummary,
+} from "./backtest/comparison.js";
+import { API_SYMBOL_MAP, ASSET_TABS } from "../src/constants.js";
+import {
+  parseFormats,
+  resolveOutputPath,
+  toCsv,
+  type BacktestFormat,
+  type DailyRow,
+} from "./backtest/output.js";
+import {
+  applyEvaluationParams,
+  evaluationParamsFromConfig,
+  expandGrid,
+  parseGrid,
+  rankCandidates,
+  rankCorrelation,
+  type SplitMetrics,
+  type SweepCandidate,
+  type SweepRankKey,
+} from "./backtest/sweep.js";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -25,6 +80,8 @@ dayjs.extend(timezone);
 type QuotePoint = {
   date: string;
   close: number;
+  high: number;
+  low: number;
 };
 
 type ExpirationSnapshot = {
@@ -38,8 +95,8 @@ type ExpirationAnalysis = {
   isoDate: string;
   callResistance: number;
   putSupport: number;
-  gammaFlip: number;
-  volTrigger: number;
+  gammaFlip: number | null;
+  volTrigger: number | null;
   callGex: number;
   putGex: number;
   totalGex: number;
@@ -52,12 +109,21 @@ type ExpirationAnalysis = {
   options: ProcessedOption[];
 };
 
+// point-in-time: 해당 거래일에 아카이브된 체인 사용 / proxy: 현재 체인으로 대체
+type DataSource = "point-in-time" | "proxy";
+
 type DailyAnalysis = {
   date: string;
+  source: DataSource;
   price: number;
+  support: number;
+  resistance: number;
+  volTrigger: number | null;
+  gammaFlipStatus: GammaFlipStatus;
   status: Recommendation;
   sentiment: number;
   upProb: number;
+  forwardReturns: Record<number, number | null>;
 };
 
 type PerformanceSummary = {
@@ -77,11 +143,10 @@ type TimeframeResult = {
   samples: number;
   metricsBySignal: Record<string, Record<number, PerformanceSummary>>;
   roc: Record<string, Record<number, { auc: number | null; brier: number | null; samples: number }>>;
+  strategy: StrategyResult;
 };
 
-const yahooFinance = new YahooFinance({
-  suppressNotices: ["ripHistorical", "yahooSurvey"],
-});
+const marketData = createMarketDataProvider();
 
 const parseArgs = () => {
   const args = process.argv.slice(2);
@@ -92,6 +157,12 @@ const parseArgs = () => {
     if (idx !== -1 && args[idx + 1]) return args[idx + 1];
     return undefined;
   };
+  const getArgs = (name: string): string[] =>
+    args.flatMap((arg, idx) => {
+      if (arg.startsWith(`--${name}=`)) return [arg.split("=").slice(1).join("=")];
+      if (arg === `--${name}` && args[idx + 1]) return [args[idx + 1]];
+      return [];
+    });
 
   const months = Number(getArg("months") || 24);
   const start = getArg("start");
@@ -100,9 +171,72 @@ const parseArgs = () => {
     getArg("horizons")?.split(",").map((v) => Number(v.trim())) || [1, 3, 5];
   const expCount = Number(getArg("exp-count") || 5);
   const maxExpirations = Number(getArg("max-expirations") || 12);
-  const output = getArg("output") || "reports/backtest-qqq.md";
+  // --symbol / --symbols (쉼표 구분, 반복 가능), "dashboard" = 대시보드 ASSET_TABS 종목
+  const symbolArgs = [...getArgs("symbol"), ...getArgs("symbols")]
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim().toUpperCase())
+    .filter(Boolean)
+    .flatMap((value) =>
+      value === "DASHBOARD" ? ASSET_TABS.map((tab) => API_SYMBOL_MAP[tab]) : [value]
+    );
+  const symbols = symbolArgs.length > 0 ? [...new Set(symbolArgs)] : ["QQQ"];
+  const output = getArg("output") || "reports/backtest-{symbol}.md";
+  const formats = parseFormats(getArgs("format"));
+  const archiveDir =
+    getArg("archive-dir") || process.env.SNAPSHOT_ARCHIVE_DIR || DEFAULT_SNAPSHOT_DIR;
+  const useArchive = !args.includes("--no-archive");
+  const strategyFile = getArg("strategy");
+  // 분석 파라미터: --config <json> 또는 ANALYSIS_CONFIG_FILE / analysis.config.json
+  const configFile = getArg("config");
+  const analysisConfig = loadAnalysisConfig(
+    configFile ? { ...process.env, ANALYSIS_CONFIG_FILE: configFile } : process.env
+  );
+  const baseParams = evaluationParamsFromConfig(analysisConfig);
+  // 배당락 일정: DIVIDEND_SCHEDULE_FILE 또는 dividends.json (없으면 연속 배당 수익률)
+  const dividendSchedule = loadDividendSchedule();
+  // 금리 곡선: RATE_CURVE_FILE 또는 rate-curve.json (과거 ^IRX는 없으므로 파일이 없으면 riskFreeRate 상수)
+  const rateCurve =
+    analysisConfig.useRateCurve
+      ? loadRateCurve() ?? constantRateCurve(analysisConfig.riskFreeRate)
+      : constantRateCurve(analysisConfig.riskFreeRate);
+  const commissionBps = getArg("commission-bps");
+  const slippageBps = getArg("slippage-bps");
+
+  // 파라미터 스윕: 그리드 인자가 하나라도 있으면 스윕 모드
+  const sweepArgs = {
+    volTriggerRatio: getArg("sweep-vol-trigger"),
+    sdMultiplier: getArg("sweep-sd"),
+    moneyness: getArg("sweep-moneyness"),
+    weightExponent: getArg("sweep-weight"),
+  };
+  const sweep = Object.values(sweepArgs).some(Boolean)
+    ? {
+        grid: {
+          volTriggerRatio: parseGrid(
+            sweepArgs.volTriggerRatio,
+            baseParams.volTriggerRatio
+          ),
+          sdMultiplier: parseGrid(sweepArgs.sdMultiplier, baseParams.sdMultiplier),
+          moneyness: parseGrid(sweepArgs.moneyness, baseParams.moneyness),
+          weightExponent: parseGrid(
+            sweepArgs.weightExponent,
+            baseParams.weightExponent
+          ),
+        },
+        rankBy: (getArg("sweep-rank") || "sharpe") as SweepRankKey,
+        oosRatio: Number(getArg("oos-ratio") || 0.3),
+        horizon: Number(getArg("sweep-horizon") || horizons[0] || 1),
+      }
+    : null;
+  if (sweep && !["auc", "brier", "sharpe"].includes(sweep.rankBy)) {
+    throw new Error(`Unknown --sweep-rank value: ${sweep.rankBy} (expected auc|brier|sharpe)`);
+  }
+  if (sweep && !(sweep.oosRatio > 0 && sweep.oosRatio < 1)) {
+    throw new Error("--oos-ratio must be between 0 and 1");
+  }
 
   return {
+    symbols,
     months,
     start,
     end,
@@ -110,27 +244,50 @@ const parseArgs = () => {
     expCount,
     maxExpirations,
     output,
+    formats,
+    archiveDir,
+    useArchive,
+    strategyFile,
+    commissionBps: commissionBps === undefined ? undefined : Number(commissionBps),
+    slippageBps: slippageBps === undefined ? undefined : Number(slippageBps),
+    sweep,
+    analysisConfig,
+    dividendSchedule,
+    rateCurve,
   };
 };
 
 const buildQuotes = (
-  quotes: { date: Date; close?: number | null; adjclose?: number | null }[]
+  quotes: {
+    date: Date;
+    close?: number | null;
+    adjclose?: number | null;
+    high?: number | null;
+    low?: number | null;
+  }[]
 ): QuotePoint[] => {
   return quotes
-    .map((q) => ({
-      date: dayjs(q.date).utc().format("YYYY-MM-DD"),
-      close: Number(q.adjclose ?? q.close ?? 0),
-    }))
+    .map((q) => {
+      const close = Number(q.adjclose ?? q.close ?? 0);
+      // 고가/저가는 수정주가 비율로 환산 (없으면 종가로 대체)
+      const adjustment = q.close && q.adjclose ? q.adjclose / q.close : 1;
+      return {
+        date: dayjs(q.date).utc().format("YYYY-MM-DD"),
+        close,
+        high: q.high ? q.high * adjustment : close,
+        low: q.low ? q.low * adjustment : close,
+      };
+    })
     .filter((q) => isFinite(q.close) && q.close > 0);
 };
 
 const fetchExpirationSnapshots = async (
+  symbol: string,
   expirationDates: Date[]
 ): Promise<ExpirationSnapshot[]> => {
   const snapshots: ExpirationSnapshot[] = [];
   for (const expirationDate of expirationDates) {
-    const details = await yahooFinance.options("QQQ", { date: expirationDate });
-    const expirationData = details?.options?.[0];
+    const expirationData = await marketData.optionChain(symbol, expirationDate);
     if (!expirationData) continue;
     snapshots.push({
       expirationDate,
@@ -147,16 +304,46 @@ const fetchExpirationSnapshots = async (
   return snapshots;
 };
 
+const loadArchivedSnapshots = async (
+  archive: SnapshotArchive,
+  symbol: string,
+  date: string
+): Promise<ExpirationSnapshot[]> => {
+  const archived = await archive.loadSession(symbol, date);
+  return archived
+    .filter((snapshot) => snapshot.expirationDate >= date)
+    .map((snapshot) => {
+      const expirationDate = new Date(`${snapshot.expirationDate}T00:00:00Z`);
+      return {
+        expirationDate,
+        calls: snapshot.calls.map((opt) => ({
+          ...opt,
+          expiration: expirationDate,
+        })) as OptionDataInput[],
+        puts: snapshot.puts.map((opt) => ({
+          ...opt,
+          expiration: expirationDate,
+        })) as OptionDataInput[],
+      };
+    });
+};
+
 const buildExpirationAnalysis = ({
   spot,
   date,
   snapshot,
+  config,
+  dividendEvents,
+  rateCurve,
 }: {
   spot: number;
   date: string;
   snapshot: ExpirationSnapshot;
+  config: AnalysisConfig;
+  dividendEvents: DividendEvent[];
+  rateCurve: RateCurve;
 }): ExpirationAnalysis | null => {
-  const filterRange = 0.1;
+  const filterRange = config.moneynessFilter;
   const currentPrice = spot;
   const expDateStr = dayjs(snapshot.expirationDate).utc().format("YYYY-MM-DD");
   const expDateObj = dayjs
@@ -168,6 +355,23 @@ const buildExpirationAnalysis = ({
 
   const timeToExpiration = expDateObj.diff(baseDateObj, "year", true);
   if (!isFinite(timeToExpiration) || timeToExpiration <= 0) return null;
+  // 기준일 이후 ~ 만기 전 배당락 (배당락일 09:30 NY)
+  const dividends = upcomingDividends(
+    dividendEvents,
+    (exDate) =>
+      dayjs
+        .tz(exDate, "America/New_York")
+        .hour(9)
+        .minute(30)
+        .second(0)
+        .diff(baseDateObj, "year", true),
+    timeToExpiration
+  );
+  // 만기별 무위험 금리 (금리 곡선 보간)
+  const expirationConfig = {
+    ...config,
+    riskFreeRate: interpolateRate(rateCurve, timeToExpiration),
+  };
 
   const filteredCallsRaw = snapshot.calls.filter(
     (opt) =>
@@ -183,12 +387,34 @@ const buildExpirationAnalysis = ({
     return null;
   }
 
-  const calls = filteredCallsRaw.map((opt) =>
-    processOption(opt as OptionDataInput, "call", currentPrice, timeToExpiration)
-  );
-  const puts = filteredPutsRaw.map((opt) =>
-    processOption(opt as OptionDataInput, "put", currentPrice, timeToExpiration)
-  );
+  // /api/analysis와 같은 유동성 필터 (maxSpreadRatio / excludeZeroBid)
+  const calls = filterLiquidOptions(
+    filteredCallsRaw.map((opt) =>
+      processOption(
+        opt as OptionDataInput,
+        "call",
+        currentPrice,
+        timeToExpiration,
+        expirationConfig,
+        dividends
+      )
+    ),
+    config
+  ).options;
+  const puts = filterLiquidOptions(
+    filteredPutsRaw.map((opt) =>
+      processOption(
+        opt as OptionDataInput,
+        "put",
+        currentPrice,
+        timeToExpiration,
+        expirationConfig,
+        dividends
+      )
+    ),
+    config
+  ).options;
+  if (calls.length === 0 && puts.length === 0) return null;
 
   const filteredCallOI = calls.reduce((acc, opt) => acc + (opt.openInterest || 0), 0);
   const filteredPutOI = puts.reduce((acc, opt) => acc + (opt.openInterest || 0), 0);
@@ -212,8 +438,14 @@ const buildExpirationAnalysis = ({
   const totalGex = callGex + putGex;
 
   const sentiment = calculateSentiment(callGex, putGex);
-  const gammaFlip = findTrueGammaFlip([...calls, ...puts], currentPrice, timeToExpiration);
-  const volTrigger = gammaFlip * VOLATILITY_TRIGGER_RATIO;
+  const gammaFlip = findTrueGammaFlip(
+    [...calls, ...puts],
+    currentPrice,
+    timeToExpiration,
+    config
+  ).flip;
+  const volTrigger =
+    gammaFlip !== null ? gammaFlip * config.volatilityTriggerRatio : null;
 
   const priceProbability = calculatePriceProbabilities({
     calls,
@@ -227,6 +459,7 @@ const buildExpirationAnalysis = ({
     calls,
     puts,
     timeToExpiration,
+    config,
   });
 
   const realisticSupport = Math.max(putWall, expectedLower);
@@ -264,7 +497,8 @@ const buildExpirationAnalysis = ({
 const calculateWeightedLevel = (
   items: ExpirationAnalysis[],
   key: "putSupport" | "callResistance" | "expectedLower" | "expectedUpper",
-  referenceDate: string
+  referenceDate: string,
+  weightExponent: number
 ) => {
   let wSum = 0;
   let vSum = 0;
@@ -275,7 +509,7 @@ const calculateWeightedLevel = (
         (1000 * 60 * 60 * 24 * 365),
       1 / 365
     );
-    const w = 1 / Math.sqrt(t);
+    const w = 1 / Math.pow(t, weightExponent);
     wSum += w;
     vSum += r[key] * w;
   }
@@ -358,99 +592,463 @@ const computeBrier = (scores: number[], labels: number[]): number | null => {
 
 const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
 
-const run = async () => {
-  const { months, start, end, horizons, expCount, maxExpirations, output } = parseArgs();
-  const endDate = end ? dayjs(end) : dayjs();
-  const startDate = start ? dayjs(start) : endDate.subtract(months, "month");
-
-  const chart = await yahooFinance.chart("QQQ", {
-    period1: startDate.format("YYYY-MM-DD"),
-    period2: endDate.format("YYYY-MM-DD"),
-    interval: "1d",
-  });
-
-  const quotes = buildQuotes(chart.quotes || []);
-  if (quotes.length === 0) {
-    throw new Error("No historical price data returned from Yahoo Finance.");
-  }
-
-  const optionChain = await yahooFinance.options("QQQ");
-  const expirationDates = (optionChain?.expirationDates || [])
-    .map((d) => new Date(d as Date))
-    .sort((a, b) => a.getTime() - b.getTime())
-    .slice(0, Math.max(expCount, maxExpirations));
+const formatStrategyRow = (label: string, metrics: StrategyMetrics) =>
+  `| ${label} | ${formatPercent(metrics.totalReturn)} | ${formatPercent(
+    metrics.cagr
+  )} | ${formatPercent(metrics.maxDrawdown)} | ${
+    metrics.sharpe === null ? "N/A" : metrics.sharpe.toFixed(2)
+  } | ${metrics.hitRate === null ? "N/A" : formatPercent(metrics.hitRate)} | ${formatPercent(
+    metrics.exposureTime
+  )} | ${metrics.trades} | ${formatPercent(metrics.totalCosts)} |`;
+
+const computeScores = (rows: DailyAnalysis[], horizon: number) => {
+  const scored = rows.filter((row) => row.forwardReturns[horizon] !== null);
+  return {
+    labels: scored.map((row) => ((row.forwardReturns[horizon] ?? 0) > 0 ? 1 : 0)),
+    upScores: scored.map((row) => row.upProb),
+    sentimentScores: scored.map((row) =>
+      Math.max(0, Math.min(1, (row.sentiment + 100) / 200))
+    ),
+  };
+};
 
-  const snapshots = await fetchExpirationSnapshots(expirationDates);
-  const snapshotMap = new Map(
-    snapshots.map((snapshot) => [snapshot.expirationDate.toISOString(), snapshot])
-  );
+const SOURCE_SUFFIX: Record<DataSource, string> = {
+  "point-in-time": "PIT",
+  proxy: "Proxy",
+};
 
-  const horizonsSorted = [...new Set(horizons.filter((h) => h > 0))].sort((a, b) => a - b);
-  const analyses: DailyAnalysis[] = [];
-  const labelsByHorizon = new Map<number, number[]>();
-  const upScoresByHorizon = new Map<number, number[]>();
-  const sentimentScoresByHorizon = new Map<number, number[]>();
-
-  for (const horizon of horizonsSorted) {
-    labelsByHorizon.set(horizon, []);
-    upScoresByHorizon.set(horizon, []);
-    sentimentScoresByHorizon.set(horizon, []);
-  }
+type DayInput = {
+  index: number;
+  date: string;
+  price: number;
+  source: DataSource;
+  snapshots: ExpirationSnapshot[];
+  dividendEvents: DividendEvent[];
+  rateCurve: RateCurve;
+};
 
+/**
+ * 거래일별 입력 체인 준비 (파라미터 스윕 시 재사용)
+ * - 해당 거래일에 캡처된 체인이 있으면 point-in-time, 없으면 현재 체인으로 대체
+ */
+const loadDayInputs = async ({
+  symbol,
+  quotes,
+  archive,
+  archivedSessions,
+  expirationDates,
+  snapshotMap,
+  expCount,
+  dividendEvents,
+  rateCurve,
+}: {
+  symbol: string;
+  quotes: QuotePoint[];
+  archive: SnapshotArchive | null;
+  archivedSessions: Set<string>;
+  expirationDates: Date[];
+  snapshotMap: Map<string, ExpirationSnapshot>;
+  expCount: number;
+  dividendEvents: DividendEvent[];
+  rateCurve: RateCurve;
+}): Promise<DayInput[]> => {
+  const days: DayInput[] = [];
   for (let i = 0; i < quotes.length; i++) {
     const { date, close: price } = quotes[i];
-    const expCandidates = expirationDates.filter((d) =>
-      dayjs(d).utc().isAfter(dayjs(date).utc().subtract(1, "day"))
-    );
-    const targetExpirations = expCandidates.slice(0, expCount);
-    const results = targetExpirations
-      .map((expDate) => snapshotMap.get(expDate.toISOString()))
-      .filter((snapshot): snapshot is ExpirationSnapshot => Boolean(snapshot))
-      .map((snapshot) => buildExpirationAnalysis({ spot: price, date, snapshot }))
+    const archivedSnapshots =
+      archive && archivedSessions.has(date)
+        ? await loadArchivedSnapshots(archive, symbol, date)
+        : [];
+    const source: DataSource =
+      archivedSnapshots.length > 0 ? "point-in-time" : "proxy";
+    const daySnapshots =
+      source === "point-in-time"
+        ? archivedSnapshots
+        : expirationDates
+            .filter((d) =>
+              dayjs(d).utc().isAfter(dayjs(date).utc().subtract(1, "day"))
+            )
+            .map((expDate) => snapshotMap.get(expDate.toISOString()))
+            .filter((snapshot): snapshot is ExpirationSnapshot => Boolean(snapshot));
+    days.push({
+      index: i,
+      date,
+      price,
+      source,
+      snapshots: daySnapshots.slice(0, expCount),
+      dividendEvents,
+      rateCurve,
+    });
+  }
+  return days;
+};
+
+const evaluateDays = ({
+  days,
+  quotes,
+  horizons,
+  config,
+}: {
+  days: DayInput[];
+  quotes: QuotePoint[];
+  horizons: number[];
+  config: AnalysisConfig;
+}) => {
+  const analyses: DailyAnalysis[] = [];
+  const swingOutcomes: (SwingOutcome & { source: DataSource })[] = [];
+
+  for (const { index: i, date, price, source, snapshots, dividendEvents, rateCurve } of days) {
+    const results = snapshots
+      .map((snapshot) =>
+        buildExpirationAnalysis({
+          spot: price,
+          date,
+          snapshot,
+          config,
+          dividendEvents,
+          rateCurve,
+        })
+      )
       .filter((result): result is ExpirationAnalysis => Boolean(result));
 
     if (results.length === 0) continue;
 
-    const aggSupport = calculateWeightedLevel(results, "putSupport", date);
-    const aggResistance = calculateWeightedLevel(results, "callResistance", date);
-    const aggExpLower = calculateWeightedLevel(results, "expectedLower", date);
-    const aggExpUpper = calculateWeightedLevel(results, "expectedUpper", date);
+    const weightExponent = config.expirationWeightExponent;
+    const aggSupport = calculateWeightedLevel(results, "putSupport", date, weightExponent);
+    const aggResistance = calculateWeightedLevel(results, "callResistance", date, weightExponent);
+    const aggExpLower = calculateWeightedLevel(results, "expectedLower", date, weightExponent);
+    const aggExpUpper = calculateWeightedLevel(results, "expectedUpper", date, weightExponent);
 
     const realisticSupport = Math.max(aggSupport, aggExpLower);
     const realisticResistance = Math.min(aggResistance, aggExpUpper);
 
     const allOptions = results.flatMap((r) => r.options);
-    const globalGammaFlip = findTrueGammaFlip(allOptions, price, 0.1);
-    const globalVolTrigger = globalGammaFlip * VOLATILITY_TRIGGER_RATIO;
-    if (!isFinite(globalVolTrigger)) continue;
+    const globalFlip = findTrueGammaFlip(allOptions, price, 0.1, config);
+    const globalVolTrigger =
+      globalFlip.flip !== null ? globalFlip.flip * config.volatilityTriggerRatio : null;
 
     const recommendations = generateRecommendations(realisticSupport, realisticResistance, price);
     const status = getStatus(price, recommendations);
 
     const front = results[0];
-    const sentiment = front.sentiment;
-    const upProb = front.priceProbability.up / 100;
 
     analyses.push({
       date,
+      source,
       price,
+      support: realisticSupport,
+      resistance: realisticResistance,
+      volTrigger: globalVolTrigger,
+      gammaFlipStatus: globalFlip.status,
       status,
-      sentiment,
-      upProb,
+      sentiment: front.sentiment,
+      upProb: front.priceProbability.up / 100,
+      forwardReturns: Object.fromEntries(
+        horizons.map((horizon) => {
+          const future = quotes[i + horizon];
+          return [horizon, future ? future.close / price - 1 : null];
+        })
+      ),
     });
 
-    for (const horizon of horizonsSorted) {
-      const future = quotes[i + horizon];
-      if (!future) continue;
-      const label = future.close > price ? 1 : 0;
-      labelsByHorizon.get(horizon)?.push(label);
-      upScoresByHorizon.get(horizon)?.push(upProb);
-      sentimentScoresByHorizon
-        .get(horizon)
-        ?.push(Math.max(0, Math.min(1, (sentiment + 100) / 200)));
+    // /api/analysis 와 동일한 로직으로 스윙 시나리오 재생성 후 사후 채점
+    for (const scenario of buildSwingScenarios(results, config)) {
+      const outcome = scoreSwingScenario(scenario, date, quotes);
+      if (outcome) swingOutcomes.push({ ...outcome, source });
     }
   }
 
+  return { analyses, swingOutcomes };
+};
+
+const toStrategySignals = (rows: DailyAnalysis[]) =>
+  rows.map((a) => ({
+    date: a.date,
+    status: a.status.status,
+    // Flip이 없으면 범위 전체가 음(-)의 감마일 때만 Trigger 하회로 간주
+    belowVolTrigger:
+      a.volTrigger !== null
+        ? a.price < a.volTrigger
+        : a.gammaFlipStatus === "all_negative",
+  }));
+
+type SweepOptions = NonNullable<ReturnType<typeof parseArgs>["sweep"]>;
+
+const formatMetric = (value: number | null, digits: number) =>
+  value === null ? "N/A" : value.toFixed(digits);
+
+/**
+ * 파라미터 그리드 평가
+ * - 기간 앞부분(in-sample)으로 순위를 매기고, 뒷부분(out-of-sample) 지표를 병기
+ * - in-sample 행 중 예측 구간이 out-of-sample로 넘어가는 날은 AUC/Brier에서 제외
+ */
+const runSweep = async ({
+  symbol,
+  days,
+  quotes,
+  horizons,
+  analysisConfig,
+  strategyConfig,
+  sweep,
+  output,
+  formats,
+  period,
+}: {
+  symbol: string;
+  days: DayInput[];
+  quotes: QuotePoint[];
+  horizons: number[];
+  analysisConfig: AnalysisConfig;
+  strategyConfig: StrategyConfig;
+  sweep: SweepOptions;
+  output: string;
+  formats: BacktestFormat[];
+  period: string;
+}) => {
+  if (days.length < 2) {
+    throw new Error("Not enough trading days for an in-sample / out-of-sample split.");
+  }
+  const horizon = horizons.includes(sweep.horizon) ? sweep.horizon : horizons[0];
+  const cutoffIdx = Math.min(
+    days.length - 1,
+    Math.max(1, Math.floor(days.length * (1 - sweep.oosRatio)))
+  );
+  const cutoffDate = days[cutoffIdx].date;
+  const cutoffQuoteIdx = days[cutoffIdx].index;
+  const quoteIndex = new Map(quotes.map((q, idx) => [q.date, idx]));
+
+  const splitMetrics = (
+    rows: DailyAnalysis[],
+    priceRange: QuotePoint[],
+    purge: boolean
+  ): SplitMetrics => {
+    const scoredRows = purge
+      ? rows.filter((row) => (quoteIndex.get(row.date) ?? 0) + horizon < cutoffQuoteIdx)
+      : rows;
+    const { labels, upScores } = computeScores(scoredRows, horizon);
+    return {
+      samples: labels.length,
+      auc: computeAuc(upScores, labels),
+      brier: computeBrier(upScores, labels),
+      sharpe: simulateStrategy(priceRange, toStrategySignals(rows), strategyConfig)
+        .strategy.sharpe,
+    };
+  };
+
+  const combos = expandGrid(sweep.grid);
+  const candidates: SweepCandidate[] = [];
+  for (const [idx, params] of combos.entries()) {
+    console.log(`[sweep] ${idx + 1}/${combos.length} ${JSON.stringify(params)}`);
+    const { analyses } = evaluateDays({
+      days,
+      quotes,
+      horizons,
+      config: applyEvaluationParams(analysisConfig, params),
+    });
+    candidates.push({
+      params,
+      inSample: splitMetrics(
+        analyses.filter((a) => a.date < cutoffDate),
+        quotes.filter((q) => q.date < cutoffDate),
+        true
+      ),
+      outOfSample: splitMetrics(
+        analyses.filter((a) => a.date >= cutoffDate),
+        quotes.filter((q) => q.date >= cutoffDate),
+        false
+      ),
+    });
+  }
+
+  const ranked = rankCandidates(
+    candidates,
+    sweep.rankBy,
+    evaluationParamsFromConfig(analysisConfig)
+  );
+  const correlation = rankCorrelation(ranked);
+
+  const lines: string[] = [];
+  lines.push(`# ${symbol} Backtest Parameter Sweep`);
+  lines.push("");
+  lines.push(`Generated: ${new Date().toISOString()}`);
+  lines.push(`Period: ${period}`);
+  lines.push(
+    `In-sample: ${days[0].date} ~ ${days[cutoffIdx - 1].date} / Out-of-sample: ${cutoffDate} ~ ${
+      days[days.length - 1].date
+    } (${formatPercent(sweep.oosRatio)})`
+  );
+  lines.push(`AUC/Brier horizon: +${horizon} trading days (UpProb)`);
+  lines.push(`Ranked by: in-sample ${sweep.rankBy} (${ranked.length} combinations)`);
+  lines.push(
+    `IS/OOS rank correlation (Spearman): ${formatMetric(correlation, 3)}`
+  );
+  lines.push("");
+  lines.push(
+    "| Rank | OOS Rank | Vol Trigger | SD Mult | Moneyness | Weight 1/T^x | IS AUC | IS Brier | IS Sharpe | OOS AUC | OOS Brier | OOS Sharpe |"
+  );
+  lines.push(
+    "| ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |"
+  );
+  for (const c of ranked) {
+    lines.push(
+      `| ${c.rank}${c.isDefault ? " (default)" : ""} | ${c.oosRank} | ${
+        c.params.volTriggerRatio
+      } | ${c.params.sdMultiplier} | ±${formatPercent(c.params.moneyness)} | ${
+        c.params.weightExponent
+      } | ${formatMetric(c.inSample.auc, 3)} | ${formatMetric(
+        c.inSample.brier,
+        3
+      )} | ${formatMetric(c.inSample.sharpe, 2)} | ${formatMetric(
+        c.outOfSample.auc,
+        3
+      )} | ${formatMetric(c.outOfSample.brier, 3)} | ${formatMetric(
+        c.outOfSample.sharpe,
+        2
+      )} |`
+    );
+  }
+  lines.push("");
+  lines.push("## Notes");
+  lines.push(
+    "- Choose parameters from the in-sample ranking only; out-of-sample columns are a holdout check."
+  );
+  lines.push(
+    "- A low or negative rank correlation means the in-sample winners do not persist (overfitting)."
+  );
+  lines.push(
+    "- Vol trigger ratio only affects the strategy through the exposure cap below the vol trigger."
+  );
+  lines.push("");
+
+  const outputs: [string, string][] = [];
+  if (formats.includes("md")) {
+    outputs.push([resolveOutputPath(output, "md", "-sweep"), lines.join("\n")]);
+  }
+  if (formats.includes("json")) {
+    outputs.push([
+      resolveOutputPath(output, "json", "-sweep"),
+      JSON.stringify(
+        {
+          generatedAt: new Date().toISOString(),
+          symbol,
+          period,
+          cutoffDate,
+          horizon,
+          rankBy: sweep.rankBy,
+          oosRatio: sweep.oosRatio,
+          rankCorrelation: correlation,
+          candidates: ranked,
+        },
+        null,
+        2
+      ),
+    ]);
+  }
+  for (const [outputPath, content] of outputs) {
+    await mkdir(path.dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, content);
+    console.log(`Sweep report written to ${outputPath}`);
+  }
+};
+
+type BacktestOptions = ReturnType<typeof parseArgs> & {
+  strategyConfig: StrategyConfig;
+};
+
+/**
+ * 출력 경로의 {symbol} 치환 (치환자 없이 여러 종목을 돌리면 파일명 뒤에 종목 추가)
+ */
+const resolveSymbolOutput = (output: string, symbol: string, multiple: boolean) => {
+  const key = symbol.toLowerCase().replace(/[^a-z0-9]+/g, "");
+  if (output.includes("{symbol}")) return output.split("{symbol}").join(key);
+  if (!multiple) return output;
+  const parsed = path.parse(output);
+  return path.join(parsed.dir, `${parsed.name}-${key}${parsed.ext}`);
+};
+
+const runSymbol = async (
+  symbol: string,
+  options: BacktestOptions
+): Promise<SymbolSummary | null> => {
+  const {
+    symbols,
+    months,
+    start,
+    end,
+    horizons,
+    expCount,
+    maxExpirations,
+    formats,
+    archiveDir,
+    useArchive,
+    sweep,
+    strategyConfig,
+    analysisConfig,
+  } = options;
+  const output = resolveSymbolOutput(options.output, symbol, symbols.length > 1);
+  const endDate = end ? dayjs(end) : dayjs();
+  const startDate = start ? dayjs(start) : endDate.subtract(months, "month");
+
+  const chart = await marketData.chart(symbol, {
+    period1: startDate.format("YYYY-MM-DD"),
+    period2: endDate.format("YYYY-MM-DD"),
+    interval: "1d",
+  });
+
+  const quotes = buildQuotes(chart.quotes || []);
+  if (quotes.length === 0) {
+    throw new Error(`No historical price data for ${symbol} returned from ${marketData.name}.`);
+  }
+
+  const expirationDates = (await marketData.optionExpirations(symbol))
+    .map((d) => new Date(d))
+    .sort((a, b) => a.getTime() - b.getTime())
+    .slice(0, Math.max(expCount, maxExpirations));
+
+  const snapshots = await fetchExpirationSnapshots(symbol, expirationDates);
+  const snapshotMap = new Map(
+    snapshots.map((snapshot) => [snapshot.expirationDate.toISOString(), snapshot])
+  );
+
+  const archive = useArchive ? createSnapshotArchive(archiveDir) : null;
+  const archivedSessions = new Set(archive ? await archive.listSessions(symbol) : []);
+
+  const horizonsSorted = [...new Set(horizons.filter((h) => h > 0))].sort((a, b) => a - b);
+  const days = await loadDayInputs({
+    symbol,
+    quotes,
+    archive,
+    archivedSessions,
+    expirationDates,
+    snapshotMap,
+    expCount,
+    dividendEvents: options.dividendSchedule[symbol] ?? [],
+    rateCurve: options.rateCurve,
+  });
+
+  if (sweep) {
+    await runSweep({
+      symbol,
+      days,
+      quotes,
+      horizons: horizonsSorted,
+      analysisConfig,
+      strategyConfig,
+      sweep,
+      output,
+      formats,
+      period: `${startDate.format("YYYY-MM-DD")} ~ ${endDate.format("YYYY-MM-DD")}`,
+    });
+    return null;
+  }
+
+  const { analyses, swingOutcomes } = evaluateDays({
+    days,
+    quotes,
+    horizons: horizonsSorted,
+    config: analysisConfig,
+  });
+
   const timeframes = [
     { label: "6M", start: endDate.subtract(6, "month") },
     { label: "12M", start: endDate.subtract(12, "month") },
@@ -488,23 +1086,42 @@ const run = async () => {
       }
     }
 
-    for (const horizon of horizonsSorted) {
-      const labels = labelsByHorizon.get(horizon) || [];
-      const upScores = upScoresByHorizon.get(horizon) || [];
-      const sentimentScores = sentimentScoresByHorizon.get(horizon) || [];
-
-      const aucUp = computeAuc(upScores, labels);
-      const brierUp = computeBrier(upScores, labels);
-      const aucSent = computeAuc(sentimentScores, labels);
-      const brierSent = computeBrier(sentimentScores, labels);
-
-      if (!roc.UpProb) roc.UpProb = {};
-      if (!roc.Sentiment) roc.Sentiment = {};
-
-      roc.UpProb[horizon] = { auc: aucUp, brier: brierUp, samples: labels.length };
-      roc.Sentiment[horizon] = { auc: aucSent, brier: brierSent, samples: labels.length };
+    // 예측 지표는 기존과 동일하게 전체 기간 기준으로 산출
+    const scoreEntries: [string, DailyAnalysis[]][] = [
+      ["", analyses],
+      [
+        ` (${SOURCE_SUFFIX["point-in-time"]})`,
+        analyses.filter((a) => a.source === "point-in-time"),
+      ],
+      [` (${SOURCE_SUFFIX.proxy})`, analyses.filter((a) => a.source === "proxy")],
+    ];
+    for (const [suffix, rows] of scoreEntries) {
+      const upKey = `UpProb${suffix}`;
+      const sentKey = `Sentiment${suffix}`;
+      roc[upKey] = {};
+      roc[sentKey] = {};
+      for (const horizon of horizonsSorted) {
+        const { labels, upScores, sentimentScores } = computeScores(rows, horizon);
+
+        roc[upKey][horizon] = {
+          auc: computeAuc(upScores, labels),
+          brier: computeBrier(upScores, labels),
+          samples: labels.length,
+        };
+        roc[sentKey][horizon] = {
+          auc: computeAuc(sentimentScores, labels),
+          brier: computeBrier(sentimentScores, labels),
+          samples: labels.length,
+        };
+      }
     }
 
+    const strategy = simulateStrategy(
+      quotes.filter((q) => q.date >= startStr && q.date <= endStr),
+      toStrategySignals(slice),
+      strategyConfig
+    );
+
     resultsByTimeframe.push({
       label: timeframe.label,
       start: startStr,
@@ -512,28 +1129,78 @@ const run = async () => {
       samples: slice.length,
       metricsBySignal,
       roc,
+      strategy,
     });
   }
 
   const lines: string[] = [];
-  lines.push("# QQQ Backtest Report");
+  lines.push(`# ${symbol} Backtest Report`);
   lines.push("");
   lines.push(`Generated: ${new Date().toISOString()}`);
   lines.push(`Period: ${startDate.format("YYYY-MM-DD")} ~ ${endDate.format("YYYY-MM-DD")}`);
   lines.push(`Horizons: ${horizonsSorted.join(", ")} trading days`);
   lines.push(`Expiration windows: ${expCount} (max loaded ${expirationDates.length})`);
   lines.push("");
+  const pitDays = analyses.filter((a) => a.source === "point-in-time");
+  const proxyDays = analyses.filter((a) => a.source === "proxy");
+  lines.push("## Data coverage");
+  lines.push("");
+  lines.push("| Source | Days | First | Last |");
+  lines.push("| --- | ---: | --- | --- |");
+  for (const [label, rows] of [
+    ["True point-in-time (archived chains)", pitDays],
+    ["Proxy (current chains)", proxyDays],
+  ] as const) {
+    lines.push(
+      `| ${label} | ${rows.length} | ${rows[0]?.date ?? "-"} | ${
+        rows[rows.length - 1]?.date ?? "-"
+      } |`
+    );
+  }
+  lines.push("");
+  lines.push(
+    archive
+      ? `Snapshot archive: ${archive.dir} (${archivedSessions.size} sessions)`
+      : "Snapshot archive: disabled (--no-archive)"
+  );
+  lines.push("");
   lines.push("## Data limitations");
   lines.push(
     "- Yahoo Finance does not provide historical option chain snapshots."
   );
   lines.push(
-    "- This report uses current option chains with historical prices (proxy backtest)."
+    "- Days without an archived chain use current option chains with historical prices (proxy backtest)."
+  );
+  lines.push(
+    "- Predictive metrics are reported for all days, point-in-time days (PIT) and proxy days separately."
   );
   lines.push(
     "- Results are illustrative only; do not treat as tradeable statistics."
   );
   lines.push("");
+  lines.push("## Strategy rules");
+  lines.push("");
+  lines.push("| Zone | Rule |");
+  lines.push("| --- | --- |");
+  for (const [zone, rule] of Object.entries(strategyConfig.rules)) {
+    lines.push(
+      `| ${zone} | ${
+        typeof rule.target === "number"
+          ? `target ${formatPercent(rule.target)}`
+          : `step ${(rule.step ?? 0) >= 0 ? "+" : ""}${formatPercent(rule.step ?? 0)}`
+      } |`
+    );
+  }
+  lines.push("");
+  lines.push(
+    `Exposure bounds: ${formatPercent(strategyConfig.minExposure)} ~ ${formatPercent(
+      strategyConfig.maxExposure
+    )}, commission ${strategyConfig.commissionBps}bps, slippage ${strategyConfig.slippageBps}bps per side.`
+  );
+  lines.push(
+    "Signals are evaluated at the close and applied to the next session's return."
+  );
+  lines.push("");
 
   for (const timeframe of resultsByTimeframe) {
     lines.push(`## Performance (${timeframe.label})`);
@@ -567,31 +1234,210 @@ const run = async () => {
     lines.push("");
     lines.push("| Metric | Horizon | Samples | ROC AUC | Brier Score |");
     lines.push("| --- | ---: | ---: | ---: | ---: |");
-    for (const horizon of horizonsSorted) {
-      const up = timeframe.roc.UpProb?.[horizon];
-      const sent = timeframe.roc.Sentiment?.[horizon];
-      if (up) {
-        lines.push(
-          `| UpProb | ${horizon} | ${up.samples} | ${
-            up.auc === null ? "N/A" : up.auc.toFixed(3)
-          } | ${up.brier === null ? "N/A" : up.brier.toFixed(3)} |`
-        );
-      }
-      if (sent) {
+    for (const [metricName, horizonMap] of Object.entries(timeframe.roc)) {
+      for (const horizon of horizonsSorted) {
+        const metric = horizonMap[horizon];
+        if (!metric) continue;
         lines.push(
-          `| Sentiment | ${horizon} | ${sent.samples} | ${
-            sent.auc === null ? "N/A" : sent.auc.toFixed(3)
-          } | ${sent.brier === null ? "N/A" : sent.brier.toFixed(3)} |`
+          `| ${metricName} | ${horizon} | ${metric.samples} | ${
+            metric.auc === null ? "N/A" : metric.auc.toFixed(3)
+          } | ${metric.brier === null ? "N/A" : metric.brier.toFixed(3)} |`
         );
       }
     }
     lines.push("");
+
+    lines.push("### Strategy Simulation");
+    lines.push("");
+    lines.push(
+      "| Portfolio | Total Return | CAGR | Max Drawdown | Sharpe | Hit Rate | Exposure | Trades | Costs |"
+    );
+    lines.push("| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |");
+    lines.push(formatStrategyRow("Zone strategy", timeframe.strategy.strategy));
+    lines.push(formatStrategyRow(`Buy & hold ${symbol}`, timeframe.strategy.buyAndHold));
+    lines.push("");
+  }
+
+  lines.push("## Swing scenario calibration");
+  lines.push("");
+  lines.push(
+    "Scenarios are regenerated per day with the `/api/analysis` logic and scored against daily highs/lows. Success = entry filled by the entry expiration and base target reached by the exit expiration."
+  );
+  lines.push("");
+  lines.push(
+    "| Claimed probability | Scenarios | Avg claimed | Realized success | Fill rate | Base hit (filled) | Extension hit (filled) |"
+  );
+  lines.push("| --- | ---: | ---: | ---: | ---: | ---: | ---: |");
+  for (const bucket of buildCalibration(swingOutcomes)) {
+    if (bucket.scenarios === 0) {
+      lines.push(`| ${bucket.label} | 0 | - | - | - | - | - |`);
+      continue;
+    }
+    lines.push(
+      `| ${bucket.label} | ${bucket.scenarios} | ${formatPercent(
+        bucket.avgProbability
+      )} | ${formatPercent(bucket.successRate)} | ${formatPercent(bucket.fillRate)} | ${
+        bucket.baseHitGivenFill === null ? "N/A" : formatPercent(bucket.baseHitGivenFill)
+      } | ${
+        bucket.extensionHitGivenFill === null
+          ? "N/A"
+          : formatPercent(bucket.extensionHitGivenFill)
+      } |`
+    );
+  }
+  lines.push("");
+  lines.push("| Source | Scenarios | Realized success | Brier Score |");
+  lines.push("| --- | ---: | ---: | ---: |");
+  for (const [label, rows] of [
+    ["All", swingOutcomes],
+    [SOURCE_SUFFIX["point-in-time"], swingOutcomes.filter((o) => o.source === "point-in-time")],
+    [SOURCE_SUFFIX.proxy, swingOutcomes.filter((o) => o.source === "proxy")],
+  ] as const) {
+    const brier = computeBrier(
+      rows.map((o) => o.probability / 100),
+      rows.map((o) => (o.baseHit ? 1 : 0))
+    );
+    lines.push(
+      `| ${label} | ${rows.length} | ${
+        rows.length > 0
+          ? formatPercent(rows.filter((o) => o.baseHit).length / rows.length)
+          : "-"
+      } | ${brier === null ? "N/A" : brier.toFixed(3)} |`
+    );
+  }
+  lines.push("");
+
+  const longest = resultsByTimeframe[resultsByTimeframe.length - 1];
+  if (longest && longest.strategy.equityCurve.length > 0) {
+    const monthEnds = longest.strategy.equityCurve.filter(
+      (point, idx, curve) =>
+        idx === curve.length - 1 ||
+        curve[idx + 1].date.slice(0, 7) !== point.date.slice(0, 7)
+    );
+    lines.push(`## Equity curve (${longest.label}, month-end)`);
+    lines.push("");
+    lines.push("| Date | Strategy | Buy & Hold | Exposure |");
+    lines.push("| --- | ---: | ---: | ---: |");
+    for (const point of monthEnds) {
+      lines.push(
+        `| ${point.date} | ${point.equity.toFixed(4)} | ${point.benchmark.toFixed(
+          4
+        )} | ${formatPercent(point.exposure)} |`
+      );
+    }
+    lines.push("");
   }
 
-  const outputPath = path.resolve(output);
-  await mkdir(path.dirname(outputPath), { recursive: true });
-  await writeFile(outputPath, lines.join("\n"));
-  console.log(`Report written to ${outputPath}`);
+  const rows: DailyRow[] = analyses.map((a) => ({
+    date: a.date,
+    source: a.source,
+    spot: a.price,
+    support: a.support,
+    resistance: a.resistance,
+    upProb: a.upProb,
+    sentiment: a.sentiment,
+    zone: a.status.status,
+    forwardReturns: a.forwardReturns,
+  }));
+
+  const outputs: [string, string][] = [];
+  if (formats.includes("md")) {
+    outputs.push([path.resolve(output), lines.join("\n")]);
+  }
+  if (formats.includes("json")) {
+    const summary = {
+      generatedAt: new Date().toISOString(),
+      symbol,
+      period: {
+        start: startDate.format("YYYY-MM-DD"),
+        end: endDate.format("YYYY-MM-DD"),
+      },
+      horizons: horizonsSorted,
+      expCount,
+      analysisConfig,
+      strategyConfig,
+      coverage: {
+        pointInTime: pitDays.length,
+        proxy: proxyDays.length,
+        archivedSessions: archivedSessions.size,
+      },
+      timeframes: resultsByTimeframe,
+      swingCalibration: buildCalibration(swingOutcomes),
+      rows,
+    };
+    outputs.push([resolveOutputPath(output, "json"), JSON.stringify(summary, null, 2)]);
+  }
+  if (formats.includes("csv")) {
+    outputs.push([resolveOutputPath(output, "csv"), toCsv(rows, horizonsSorted)]);
+  }
+
+  for (const [outputPath, content] of outputs) {
+    await mkdir(path.dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, content);
+    console.log(`Report written to ${outputPath}`);
+  }
+
+  const longestUpProb = longest?.roc.UpProb?.[horizonsSorted[0]];
+  const swingBrier = computeBrier(
+    swingOutcomes.map((o) => o.probability / 100),
+    swingOutcomes.map((o) => (o.baseHit ? 1 : 0))
+  );
+  return {
+    symbol,
+    period: `${startDate.format("YYYY-MM-DD")} ~ ${endDate.format("YYYY-MM-DD")}`,
+    days: analyses.length,
+    pointInTimeDays: pitDays.length,
+    horizon: horizonsSorted[0],
+    upProbAuc: longestUpProb?.auc ?? null,
+    upProbBrier: longestUpProb?.brier ?? null,
+    sentimentAuc: longest?.roc.Sentiment?.[horizonsSorted[0]]?.auc ?? null,
+    strategy: longest.strategy.strategy,
+    buyAndHold: longest.strategy.buyAndHold,
+    swingScenarios: swingOutcomes.length,
+    swingSuccessRate:
+      swingOutcomes.length > 0
+        ? swingOutcomes.filter((o) => o.baseHit).length / swingOutcomes.length
+        : null,
+    swingBrier,
+  };
+};
+
+const run = async () => {
+  const args = parseArgs();
+  const strategyConfig = await loadStrategyConfig(args.strategyFile, {
+    commissionBps: args.commissionBps,
+    slippageBps: args.slippageBps,
+  });
+
+  if (args.symbols.length === 1) {
+    await runSymbol(args.symbols[0], { ...args, strategyConfig });
+    return;
+  }
+
+  // 여러 종목: 종목별 리포트 + 통합 비교 리포트 (개별 실패는 건너뜀)
+  const summaries: SymbolSummary[] = [];
+  const failures: SymbolFailure[] = [];
+  for (const symbol of args.symbols) {
+    console.log(`[${symbol}] running backtest...`);
+    try {
+      const summary = await runSymbol(symbol, { ...args, strategyConfig });
+      if (summary) summaries.push(summary);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[${symbol}] skipped: ${message}`);
+      failures.push({ symbol, error: message });
+    }
+  }
+
+  if (args.sweep) return;
+
+  const comparisonPath = path.join(
+    path.dirname(path.resolve(args.output)),
+    "backtest-comparison.md"
+  );
+  await mkdir(path.dirname(comparisonPath), { recursive: true });
+  await writeFile(comparisonPath, buildComparisonReport(summaries, failures));
+  console.log(`Comparison report written to ${comparisonPath}`);
 };
 
 run().catch((error) => {
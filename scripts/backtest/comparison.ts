@@ -0,0 +1,97 @@
+import type { StrategyMetrics } from "./strategy.js";
+
+export type SymbolSummary = {
+  symbol: string;
+  period: string;
+  days: number;
+  pointInTimeDays: number;
+  horizon: number;
+  upProbAuc: number | null;
+  upProbBrier: number | null;
+  sentimentAuc: number | null;
+  strategy: StrategyMetrics;
+  buyAndHold: StrategyMetrics;
+  swingScenarios: number;
+  swingSuccessRate: number | null;
+  swingBrier: number | null;
+};
+
+export type SymbolFailure = {
+  symbol: string;
+  error: string;
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatMetric = (value: number | null, digits: number) =>
+  value === null ? "N/A" : value.toFixed(digits);
+
+/**
+ * 종목별 백테스트 요약 비교 리포트 (UpProb AUC 내림차순)
+ */
+export const buildComparisonReport = (
+  summaries: SymbolSummary[],
+  failures: SymbolFailure[]
+): string => {
+  const ranked = [...summaries].sort(
+    (a, b) => (b.upProbAuc ?? -Infinity) - (a.upProbAuc ?? -Infinity)
+  );
+  const horizon = summaries[0]?.horizon;
+
+  const lines: string[] = [];
+  lines.push("# Multi-symbol Backtest Comparison");
+  lines.push("");
+  lines.push(`Generated: ${new Date().toISOString()}`);
+  if (horizon !== undefined) {
+    lines.push(`AUC/Brier horizon: +${horizon} trading days (longest timeframe)`);
+  }
+  lines.push("");
+  lines.push("## Predictive power");
+  lines.push("");
+  lines.push(
+    "| Rank | Symbol | Days | PIT Days | UpProb AUC | UpProb Brier | Sentiment AUC | Swing Scenarios | Swing Success | Swing Brier |"
+  );
+  lines.push("| ---: | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |");
+  ranked.forEach((s, idx) => {
+    lines.push(
+      `| ${idx + 1} | ${s.symbol} | ${s.days} | ${s.pointInTimeDays} | ${formatMetric(
+        s.upProbAuc,
+        3
+      )} | ${formatMetric(s.upProbBrier, 3)} | ${formatMetric(s.sentimentAuc, 3)} | ${
+        s.swingScenarios
+      } | ${s.swingSuccessRate === null ? "N/A" : formatPercent(s.swingSuccessRate)} | ${formatMetric(
+        s.swingBrier,
+        3
+      )} |`
+    );
+  });
+  lines.push("");
+  lines.push("## Zone strategy vs buy & hold");
+  lines.push("");
+  lines.push(
+    "| Symbol | Period | Strategy Return | Strategy MDD | Strategy Sharpe | Exposure | B&H Return | B&H MDD | B&H Sharpe |"
+  );
+  lines.push("| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |");
+  for (const s of ranked) {
+    lines.push(
+      `| ${s.symbol} | ${s.period} | ${formatPercent(s.strategy.totalReturn)} | ${formatPercent(
+        s.strategy.maxDrawdown
+      )} | ${formatMetric(s.strategy.sharpe, 2)} | ${formatPercent(
+        s.strategy.exposureTime
+      )} | ${formatPercent(s.buyAndHold.totalReturn)} | ${formatPercent(
+        s.buyAndHold.maxDrawdown
+      )} | ${formatMetric(s.buyAndHold.sharpe, 2)} |`
+    );
+  }
+  lines.push("");
+
+  if (failures.length > 0) {
+    lines.push("## Skipped symbols");
+    lines.push("");
+    for (const failure of failures) {
+      lines.push(`- ${failure.symbol}: ${failure.error}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+};
@@ -0,0 +1,86 @@
+import path from "node:path";
+
+export type BacktestFormat = "md" | "json" | "csv";
+
+export const BACKTEST_FORMATS: BacktestFormat[] = ["md", "json", "csv"];
+
+export type DailyRow = {
+  date: string;
+  source: string;
+  spot: number;
+  support: number;
+  resistance: number;
+  upProb: number;
+  sentiment: number;
+  zone: string;
+  forwardReturns: Record<number, number | null>;
+};
+
+/**
+ * --format 값 파싱 (쉼표 구분 및 반복 지정 허용)
+ */
+export const parseFormats = (values: string[]): BacktestFormat[] => {
+  const formats = values
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+  if (formats.length === 0) return ["md"];
+
+  const unknown = formats.filter(
+    (format) => !BACKTEST_FORMATS.includes(format as BacktestFormat)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown --format value: ${unknown.join(", ")} (expected ${BACKTEST_FORMATS.join("|")})`
+    );
+  }
+  return [...new Set(formats as BacktestFormat[])];
+};
+
+/**
+ * --output 경로의 확장자를 포맷에 맞게 교체 (reports/backtest-qqq.md → .json / .csv)
+ */
+export const resolveOutputPath = (
+  output: string,
+  format: BacktestFormat,
+  suffix: string = ""
+) => {
+  const parsed = path.parse(path.resolve(output));
+  return path.join(parsed.dir, `${parsed.name}${suffix}.${format}`);
+};
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: DailyRow[], horizons: number[]): string => {
+  const header = [
+    "date",
+    "source",
+    "spot",
+    "support",
+    "resistance",
+    "upProb",
+    "sentiment",
+    "zone",
+    ...horizons.map((h) => `fwdReturn${h}d`),
+  ];
+  const body = rows.map((row) =>
+    [
+      row.date,
+      row.source,
+      row.spot,
+      row.support,
+      row.resistance,
+      row.upProb,
+      row.sentiment,
+      row.zone,
+      ...horizons.map((h) => row.forwardReturns[h] ?? null),
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [header.join(","), ...body].join("\n") + "\n";
+};
@@ -0,0 +1,252 @@
+import { readFile } from "node:fs/promises";
+
+export type ZoneStatus =
+  | "Extreme Risk"
+  | "Strong Buy"
+  | "Buy"
+  | "Neutral"
+  | "Sell"
+  | "Strong Sell";
+
+/**
+ * 구간별 포지션 규칙
+ * - step: 해당 구간 신호 시 목표 비중 증감 (+ 분할 매수 / - 분할 매도)
+ * - target: 지정 시 즉시 해당 비중으로 조정 (예: 0 = 전량 청산)
+ */
+export type ZoneRule = {
+  step?: number;
+  target?: number;
+};
+
+export type StrategyConfig = {
+  rules: Record<ZoneStatus, ZoneRule>;
+  maxExposure: number;
+  minExposure: number;
+  // 현재가가 Vol Trigger 아래(음의 감마 구간)일 때 허용 최대 비중
+  volTriggerMaxExposure: number;
+  commissionBps: number;
+  slippageBps: number;
+};
+
+export type StrategySignal = {
+  date: string;
+  status: string;
+  belowVolTrigger?: boolean;
+};
+
+export type PricePoint = {
+  date: string;
+  close: number;
+};
+
+export type EquityPoint = {
+  date: string;
+  equity: number;
+  benchmark: number;
+  exposure: number;
+};
+
+export type StrategyMetrics = {
+  totalReturn: number;
+  cagr: number;
+  maxDrawdown: number;
+  sharpe: number | null;
+  hitRate: number | null;
+  exposureTime: number;
+  trades: number;
+  totalCosts: number;
+};
+
+export type StrategyResult = {
+  strategy: StrategyMetrics;
+  buyAndHold: StrategyMetrics;
+  equityCurve: EquityPoint[];
+};
+
+export const DEFAULT_STRATEGY: StrategyConfig = {
+  rules: {
+    "Extreme Risk": { target: 0 },
+    "Strong Buy": { step: 0.5 },
+    Buy: { step: 0.25 },
+    Neutral: { step: 0 },
+    Sell: { step: -0.25 },
+    "Strong Sell": { step: -0.5 },
+  },
+  maxExposure: 1,
+  minExposure: 0,
+  volTriggerMaxExposure: 0.5,
+  commissionBps: 1,
+  slippageBps: 2,
+};
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+export const loadStrategyConfig = async (
+  filePath: string | undefined,
+  overrides: Partial<Pick<StrategyConfig, "commissionBps" | "slippageBps">>
+): Promise<StrategyConfig> => {
+  const fromFile = filePath
+    ? (JSON.parse(await readFile(filePath, "utf8")) as Partial<StrategyConfig>)
+    : {};
+  return {
+    ...DEFAULT_STRATEGY,
+    ...fromFile,
+    rules: { ...DEFAULT_STRATEGY.rules, ...(fromFile.rules || {}) },
+    ...Object.fromEntries(
+      Object.entries(overrides).filter(([, v]) => typeof v === "number" && isFinite(v))
+    ),
+  };
+};
+
+const nextExposure = (
+  current: number,
+  signal: StrategySignal,
+  config: StrategyConfig
+): number => {
+  const rule = config.rules[signal.status as ZoneStatus];
+  if (!rule) return current;
+  const raw =
+    typeof rule.target === "number" ? rule.target : current + (rule.step ?? 0);
+  const maxExposure = signal.belowVolTrigger
+    ? Math.min(config.maxExposure, config.volTriggerMaxExposure)
+    : config.maxExposure;
+  return Math.max(config.minExposure, Math.min(maxExposure, raw));
+};
+
+const summarize = (
+  dailyReturns: number[],
+  equity: number[],
+  exposures: number[],
+  episodes: number[],
+  totalCosts: number
+): StrategyMetrics => {
+  const finalEquity = equity[equity.length - 1] ?? 1;
+  const years = dailyReturns.length / TRADING_DAYS_PER_YEAR;
+
+  let peak = 1;
+  let maxDrawdown = 0;
+  for (const value of equity) {
+    if (value > peak) peak = value;
+    const drawdown = (value - peak) / peak;
+    if (drawdown < maxDrawdown) maxDrawdown = drawdown;
+  }
+
+  const mean =
+    dailyReturns.reduce((a, b) => a + b, 0) / Math.max(dailyReturns.length, 1);
+  const variance =
+    dailyReturns.reduce((acc, r) => acc + Math.pow(r - mean, 2), 0) /
+    Math.max(dailyReturns.length - 1, 1);
+  const std = Math.sqrt(variance);
+
+  return {
+    totalReturn: finalEquity - 1,
+    cagr: years > 0 && finalEquity > 0 ? Math.pow(finalEquity, 1 / years) - 1 : 0,
+    maxDrawdown,
+    sharpe:
+      dailyReturns.length > 1 && std > 0
+        ? (mean / std) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+        : null,
+    hitRate:
+      episodes.length > 0
+        ? episodes.filter((r) => r > 0).length / episodes.length
+        : null,
+    exposureTime:
+      exposures.length > 0
+        ? exposures.filter((e) => e > 0).length / exposures.length
+        : 0,
+    trades: episodes.length,
+    totalCosts,
+  };
+};
+
+/**
+ * 구간 신호 기반 포지션 시뮬레이션
+ * - t일 종가 기준 신호로 비중 조정 (수수료 + 슬리피지 차감) 후 t+1일 수익률 반영
+ * - 신호가 없는 날은 직전 비중 유지
+ * - 일별 수익률은 전일 거래 전 자산 기준 (전일 거래 비용 포함, Sharpe / 변동성도 비용 차감 후)
+ * - Vol Trigger 하회 시 비중 상한을 volTriggerMaxExposure로 제한
+ * - Hit rate: 진입(0 → 보유)부터 청산(→ 0)까지의 구간 손익 기준
+ */
+export const simulateStrategy = (
+  prices: PricePoint[],
+  signals: StrategySignal[],
+  config: StrategyConfig
+): StrategyResult => {
+  const signalMap = new Map(signals.map((s) => [s.date, s]));
+  const costRate = (config.commissionBps + config.slippageBps) / 10000;
+
+  let exposure = 0;
+  let equity = 1;
+  let benchmark = 1 - costRate;
+  let episodeStart: number | null = null;
+  let totalCosts = 0;
+  // 직전 날짜의 거래 전 자산 (첫날은 둘 다 비용 차감 전 1 → 첫 수익률에 진입 비용 포함)
+  let previousEquity = equity;
+  let previousBenchmark = 1;
+
+  const equityCurve: EquityPoint[] = [];
+  const strategyReturns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  const strategyEquity: number[] = [];
+  const benchmarkEquity: number[] = [];
+  const exposures: number[] = [];
+  const episodes: number[] = [];
+
+  for (let i = 0; i < prices.length; i++) {
+    const { date, close } = prices[i];
+
+    if (i > 0) {
+      const marketReturn = close / prices[i - 1].close - 1;
+      equity *= 1 + exposure * marketReturn;
+      benchmark *= 1 + marketReturn;
+      strategyReturns.push(equity / previousEquity - 1);
+      benchmarkReturns.push(benchmark / previousBenchmark - 1);
+      exposures.push(exposure);
+      previousEquity = equity;
+      previousBenchmark = benchmark;
+    }
+
+    const signal = signalMap.get(date);
+    if (signal) {
+      const target = nextExposure(exposure, signal, config);
+      const traded = Math.abs(target - exposure);
+      if (traded > 0) {
+        const cost = equity * traded * costRate;
+        equity -= cost;
+        totalCosts += cost;
+        if (exposure === 0 && target > 0) episodeStart = equity;
+        if (target === 0 && episodeStart !== null) {
+          episodes.push(equity / episodeStart - 1);
+          episodeStart = null;
+        }
+      }
+      exposure = target;
+    }
+
+    strategyEquity.push(equity);
+    benchmarkEquity.push(benchmark);
+    equityCurve.push({ date, equity, benchmark, exposure });
+  }
+
+  if (episodeStart !== null) {
+    episodes.push(equity / episodeStart - 1);
+  }
+
+  return {
+    strategy: summarize(
+      strategyReturns,
+      strategyEquity,
+      exposures,
+      episodes,
+      totalCosts
+    ),
+    buyAndHold: summarize(
+      benchmarkReturns,
+      benchmarkEquity,
+      benchmarkReturns.map(() => 1),
+      prices.length > 1 ? [benchmark - 1] : [],
+      costRate
+    ),
+    equityCurve,
+  };
+};
@@ -0,0 +1,158 @@
+import {
+  DEFAULT_ANALYSIS_CONFIG,
+  type AnalysisConfig,
+} from "../../api/analysis/config.js";
+
+/**
+ * 백테스트 평가에 사용되는 튜닝 파라미터
+ * - volTriggerRatio: Vol Trigger = Gamma Flip × ratio
+ * - sdMultiplier: 1-SD 예상 범위 축소 배수
+ * - moneyness: 행사가 필터 범위 (±)
+ * - weightExponent: 만기 가중치 1 / T^exponent (기본 0.5 = 1/sqrt(T))
+ */
+export type EvaluationParams = {
+  volTriggerRatio: number;
+  sdMultiplier: number;
+  moneyness: number;
+  weightExponent: number;
+};
+
+export const evaluationParamsFromConfig = (
+  config: AnalysisConfig
+): EvaluationParams => ({
+  volTriggerRatio: config.volatilityTriggerRatio,
+  sdMultiplier: config.scalpSdMultiplier,
+  moneyness: config.moneynessFilter,
+  weightExponent: config.expirationWeightExponent,
+});
+
+export const applyEvaluationParams = (
+  config: AnalysisConfig,
+  params: EvaluationParams
+): AnalysisConfig => ({
+  ...config,
+  volatilityTriggerRatio: params.volTriggerRatio,
+  scalpSdMultiplier: params.sdMultiplier,
+  moneynessFilter: params.moneyness,
+  expirationWeightExponent: params.weightExponent,
+});
+
+export const DEFAULT_EVALUATION_PARAMS = evaluationParamsFromConfig(
+  DEFAULT_ANALYSIS_CONFIG
+);
+
+export type SweepRankKey = "auc" | "brier" | "sharpe";
+
+export type SplitMetrics = {
+  samples: number;
+  auc: number | null;
+  brier: number | null;
+  sharpe: number | null;
+};
+
+export type SweepCandidate = {
+  params: EvaluationParams;
+  inSample: SplitMetrics;
+  outOfSample: SplitMetrics;
+};
+
+export type RankedCandidate = SweepCandidate & {
+  rank: number;
+  oosRank: number;
+  isDefault: boolean;
+};
+
+/**
+ * 쉼표 구분 그리드 값 파싱 (미지정 시 기본값 단일 항목)
+ */
+export const parseGrid = (value: string | undefined, fallback: number): number[] => {
+  if (!value) return [fallback];
+  const values = value
+    .split(",")
+    .map((v) => Number(v.trim()))
+    .filter((v) => isFinite(v));
+  return values.length > 0 ? [...new Set(values)] : [fallback];
+};
+
+export const expandGrid = (
+  grid: Record<keyof EvaluationParams, number[]>
+): EvaluationParams[] => {
+  const combos: EvaluationParams[] = [];
+  for (const volTriggerRatio of grid.volTriggerRatio) {
+    for (const sdMultiplier of grid.sdMultiplier) {
+      for (const moneyness of grid.moneyness) {
+        for (const weightExponent of grid.weightExponent) {
+          combos.push({ volTriggerRatio, sdMultiplier, moneyness, weightExponent });
+        }
+      }
+    }
+  }
+  return combos;
+};
+
+// AUC/Sharpe는 높을수록, Brier는 낮을수록 좋음 (N/A는 null)
+const rankValue = (metrics: SplitMetrics, key: SweepRankKey) => {
+  const value = metrics[key];
+  if (value === null) return null;
+  return key === "brier" ? -value : value;
+};
+
+// 파라미터 순서 비교 (동점 시 결정적 순서)
+const compareParams = (a: EvaluationParams, b: EvaluationParams) =>
+  a.volTriggerRatio - b.volTriggerRatio ||
+  a.sdMultiplier - b.sdMultiplier ||
+  a.moneyness - b.moneyness ||
+  a.weightExponent - b.weightExponent;
+
+/**
+ * 좋은 후보가 앞으로 오는 비교 함수
+ * - N/A는 항상 뒤, 값이 같으면 파라미터 순
+ */
+const compareBy =
+  (split: "inSample" | "outOfSample", key: SweepRankKey) =>
+  (a: SweepCandidate, b: SweepCandidate) => {
+    const va = rankValue(a[split], key);
+    const vb = rankValue(b[split], key);
+    if (va === null && vb !== null) return 1;
+    if (va !== null && vb === null) return -1;
+    if (va !== null && vb !== null && va !== vb) return vb - va;
+    return compareParams(a.params, b.params);
+  };
+
+const isSameParams = (a: EvaluationParams, b: EvaluationParams) =>
+  a.volTriggerRatio === b.volTriggerRatio &&
+  a.sdMultiplier === b.sdMultiplier &&
+  a.moneyness === b.moneyness &&
+  a.weightExponent === b.weightExponent;
+
+/**
+ * In-sample 기준 순위 산출 + Out-of-sample 순위 병기 (과최적화 확인용)
+ */
+export const rankCandidates = (
+  candidates: SweepCandidate[],
+  key: SweepRankKey,
+  baseline: EvaluationParams = DEFAULT_EVALUATION_PARAMS
+): RankedCandidate[] => {
+  const oosOrder = [...candidates].sort(compareBy("outOfSample", key));
+  return [...candidates]
+    .sort(compareBy("inSample", key))
+    .map((candidate, idx) => ({
+      ...candidate,
+      rank: idx + 1,
+      oosRank: oosOrder.indexOf(candidate) + 1,
+      isDefault: isSameParams(candidate.params, baseline),
+    }));
+};
+
+/**
+ * In-sample / Out-of-sample 순위 간 Spearman 상관 (1에 가까울수록 순위가 유지됨)
+ */
+export const rankCorrelation = (ranked: RankedCandidate[]): number | null => {
+  const n = ranked.length;
+  if (n < 3) return null;
+  const sumSquared = ranked.reduce(
+    (acc, c) => acc + Math.pow(c.rank - c.oosRank, 2),
+    0
+  );
+  return 1 - (6 * sumSquared) / (n * (n * n - 1));
+};
@@ -0,0 +1,114 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import type { SwingScenario } from "../../api/analysis/swingScenarios.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type RangePoint = {
+  date: string;
+  high: number;
+  low: number;
+};
+
+export type SwingOutcome = {
+  date: string;
+  probability: number;
+  filled: boolean;
+  baseHit: boolean;
+  extensionHit: boolean;
+};
+
+export type CalibrationBucket = {
+  label: string;
+  scenarios: number;
+  avgProbability: number;
+  fillRate: number;
+  successRate: number;
+  baseHitGivenFill: number | null;
+  extensionHitGivenFill: number | null;
+};
+
+export const PROBABILITY_BUCKETS: { label: string; min: number; max: number }[] = [
+  { label: "35-44%", min: 35, max: 45 },
+  { label: "45-54%", min: 45, max: 55 },
+  { label: "55-64%", min: 55, max: 65 },
+  { label: "65-74%", min: 65, max: 75 },
+  { label: "75-80%", min: 75, max: 81 },
+];
+
+const toSessionDate = (isoDate: string) =>
+  dayjs(isoDate).tz("America/New_York").format("YYYY-MM-DD");
+
+/**
+ * 스윙 시나리오 사후 채점
+ * - 진입: 분석일 다음 세션부터 진입 만기일까지 저가가 진입가 이하로 내려오면 체결
+ * - 목표: 체결 다음 세션부터 청산 만기일까지 고가가 Base/Extension 목표가에 도달했는지
+ * - 청산 만기일까지 가격 데이터가 없으면 미확정(null)
+ */
+export const scoreSwingScenario = (
+  scenario: SwingScenario,
+  analysisDate: string,
+  ranges: RangePoint[]
+): SwingOutcome | null => {
+  const entryDate = toSessionDate(scenario.entryIsoDate);
+  const exitDate = toSessionDate(scenario.exitIsoDate);
+  const lastDate = ranges[ranges.length - 1]?.date;
+  if (!lastDate || lastDate < exitDate) return null;
+
+  let filledOn: string | null = null;
+  let baseHit = false;
+  let extensionHit = false;
+
+  for (const point of ranges) {
+    if (point.date <= analysisDate || point.date > exitDate) continue;
+    if (filledOn === null) {
+      if (point.date <= entryDate && point.low <= scenario.entryPrice) {
+        filledOn = point.date;
+      }
+      continue;
+    }
+    if (point.high >= scenario.exitPrice) baseHit = true;
+    if (point.high >= scenario.extensionPrice) extensionHit = true;
+  }
+
+  return {
+    date: analysisDate,
+    probability: scenario.probability,
+    filled: filledOn !== null,
+    baseHit,
+    extensionHit,
+  };
+};
+
+/**
+ * 시나리오 확률 구간별 실현 성공률 (성공 = 진입 체결 + Base 목표 도달)
+ */
+export const buildCalibration = (outcomes: SwingOutcome[]): CalibrationBucket[] => {
+  return PROBABILITY_BUCKETS.map(({ label, min, max }) => {
+    const rows = outcomes.filter(
+      (o) => o.probability >= min && o.probability < max
+    );
+    const filled = rows.filter((o) => o.filled);
+    return {
+      label,
+      scenarios: rows.length,
+      avgProbability:
+        rows.length > 0
+          ? rows.reduce((acc, o) => acc + o.probability, 0) / rows.length / 100
+          : 0,
+      fillRate: rows.length > 0 ? filled.length / rows.length : 0,
+      successRate:
+        rows.length > 0 ? rows.filter((o) => o.baseHit).length / rows.length : 0,
+      baseHitGivenFill:
+        filled.length > 0
+          ? filled.filter((o) => o.baseHit).length / filled.length
+          : null,
+      extensionHitGivenFill:
+        filled.length > 0
+          ? filled.filter((o) => o.extensionHit).length / filled.length
+          : null,
+    };
+  });
+};
@@ -0,0 +1,129 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { createMarketDataProvider } from "../api/data/marketDataProvider.js";
+import {
+  createSnapshotArchive,
+  DEFAULT_SNAPSHOT_DIR,
+} from "../api/data/snapshotArchive.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const marketData = createMarketDataProvider();
+
+const parseArgs = () => {
+  const args = process.argv.slice(2);
+  const getArg = (name: string): string | undefined => {
+    const direct = args.find((arg) => arg.startsWith(`--${name}=`));
+    if (direct) return direct.split("=").slice(1).join("=");
+    const idx = args.indexOf(`--${name}`);
+    if (idx !== -1 && args[idx + 1]) return args[idx + 1];
+    return undefined;
+  };
+
+  const symbols = (getArg("symbols") || "QQQ")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+  const maxExpirations = Number(getArg("max-expirations") || 12);
+  const days = Number(getArg("days") || 60);
+  const dir =
+    getArg("dir") || process.env.SNAPSHOT_ARCHIVE_DIR || DEFAULT_SNAPSHOT_DIR;
+  const delayMs = Number(getArg("delay-ms") || 400);
+
+  return { symbols, maxExpirations, days, dir, delayMs };
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const captureSymbol = async ({
+  symbol,
+  maxExpirations,
+  days,
+  delayMs,
+  archive,
+}: {
+  symbol: string;
+  maxExpirations: number;
+  days: number;
+  delayMs: number;
+  archive: ReturnType<typeof createSnapshotArchive>;
+}) => {
+  const quote = await marketData.quote(symbol);
+  const spot = quote.regularMarketPrice ?? null;
+  const now = dayjs().tz("America/New_York");
+  const todayStr = now.format("YYYY-MM-DD");
+  const limitStr = now.add(days, "day").format("YYYY-MM-DD");
+
+  const expirations = (await marketData.optionExpirations(symbol))
+    .map((d) => ({ date: d, key: dayjs(d).utc().format("YYYY-MM-DD") }))
+    .filter((d) => d.key >= todayStr && d.key <= limitStr)
+    .sort((a, b) => (a.key < b.key ? -1 : 1))
+    .slice(0, maxExpirations);
+
+  let saved = 0;
+  for (const expiration of expirations) {
+    try {
+      const chain = await marketData.optionChain(symbol, expiration.date);
+      if (!chain || (!chain.calls.length && !chain.puts.length)) {
+        console.warn(`[Capture] ${symbol} ${expiration.key}: no data`);
+        continue;
+      }
+      await archive.save(
+        {
+          symbol,
+          expirationDate: expiration.key,
+          spot,
+          source: "capture",
+          calls: chain.calls,
+          puts: chain.puts,
+        },
+        { force: true }
+      );
+      saved += 1;
+    } catch (error) {
+      console.warn(
+        `[Capture] ${symbol} ${expiration.key} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    await sleep(delayMs);
+  }
+
+  console.log(
+    `[Capture] ${symbol}: ${saved}/${expirations.length} expirations saved (spot ${
+      spot?.toFixed(2) ?? "N/A"
+    })`
+  );
+};
+
+const run = async () => {
+  const { symbols, maxExpirations, days, dir, delayMs } = parseArgs();
+  const archive = createSnapshotArchive(dir);
+  console.log(`[Capture] archive: ${archive.dir} (provider: ${marketData.name})`);
+
+  // 종목별 실패는 건너뛰고 나머지 종목 계속 수집, 실패가 있으면 종료 코드 1
+  const failures: string[] = [];
+  for (const symbol of symbols) {
+    try {
+      await captureSymbol({ symbol, maxExpirations, days, delayMs, archive });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Capture] ${symbol} skipped: ${message}`);
+      failures.push(symbol);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`[Capture] failed symbols: ${failures.join(", ")}`);
+    process.exitCode = 1;
+  }
+};
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,171 @@
+import { readFile, writeFile } from "node:fs/promises";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { DEFAULT_ANALYSIS_CONFIG } from "../api/analysis/config.js";
+import {
+  aggregateDexByStrike,
+  filterLiquidOptions,
+  findOIWalls,
+  findTrueGammaFlip,
+  processOption,
+  type OptionDataInput,
+} from "../api/analysis/metrics.js";
+import { calculatePinLevels } from "../api/analysis/pinning.js";
+import { calculateIvSkew } from "../api/analysis/skew.js";
+import { createFixtureProvider } from "../api/data/fixtureProvider.js";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * 기록된 fixture로 분석 파이프라인을 오프라인 실행하고 기대값과 비교
+ * - 분석 시각 / 설정을 고정해 실행 환경(현재 시각, analysis.config.json)과 무관하게 결정적
+ * - --update: 현재 결과로 기대값 파일 갱신 (계산 로직을 의도적으로 바꾼 경우)
+ */
+const FIXTURE_DIR = "fixtures/market-data";
+const EXPECTED_FILE = "fixtures/analysis-expected.json";
+const SYMBOL = "QQQ";
+const NOW = dayjs.tz("2026-01-12 10:00", "America/New_York");
+
+// 부동소수점 출력 차이를 흡수하도록 유효숫자 8자리로 고정
+const round = (value: number | null) =>
+  value === null ? null : Number(value.toPrecision(8));
+
+const fail = (message: string): never => {
+  throw new Error(message);
+};
+
+const analyze = async () => {
+  const provider = createFixtureProvider(FIXTURE_DIR);
+  const config = DEFAULT_ANALYSIS_CONFIG;
+
+  const quote = await provider.quote(SYMBOL);
+  const spot = quote.regularMarketPrice ?? fail("quote has no regularMarketPrice");
+  if (!(quote.regularMarketTime instanceof Date)) {
+    fail("quote.regularMarketTime was not revived as a Date");
+  }
+
+  const chart = await provider.chart(SYMBOL, {
+    period1: "2025-12-01",
+    period2: "2026-01-12",
+    interval: "1d",
+  });
+  if (!chart.quotes.every((q) => q.date instanceof Date)) {
+    fail("chart quote dates were not revived as Dates");
+  }
+
+  const expirationDates = await provider.optionExpirations(SYMBOL);
+  if (!expirationDates.every((d) => d instanceof Date)) {
+    fail("option expirations were not revived as Dates");
+  }
+
+  const inRange = (strike: number) =>
+    strike > spot * (1 - config.moneynessFilter) &&
+    strike < spot * (1 + config.moneynessFilter);
+
+  const expirations = [];
+  for (const expiration of expirationDates) {
+    const chain =
+      (await provider.optionChain(SYMBOL, expiration)) ??
+      fail(`missing option chain for ${expiration.toISOString()}`);
+    const expDateStr = dayjs(expiration).utc().format("YYYY-MM-DD");
+    const timeToExpiration = dayjs
+      .tz(expDateStr, "America/New_York")
+      .hour(16)
+      .diff(NOW, "year", true);
+
+    const process = (type: "call" | "put") =>
+      filterLiquidOptions(
+        (type === "call" ? chain.calls : chain.puts)
+          .filter((opt) => inRange(opt.strike))
+          .map((opt) =>
+            processOption(
+              opt as unknown as OptionDataInput,
+              type,
+              spot,
+              timeToExpiration,
+              config
+            )
+          ),
+        config
+      ).options;
+    const calls = process("call");
+    const puts = process("put");
+    const options = [...calls, ...puts];
+
+    const walls = findOIWalls(options, spot);
+    const flip = findTrueGammaFlip(options, spot, timeToExpiration, config);
+    const skew = calculateIvSkew({ calls, puts, spot, timeToExpiration, config });
+    const pin = calculatePinLevels({
+      chainCalls: chain.calls,
+      chainPuts: chain.puts,
+      calls,
+      puts,
+      spot,
+      atmIv: skew.atmIv,
+      timeToExpiration,
+    });
+    const dexProfile = aggregateDexByStrike(options);
+
+    expirations.push({
+      expiration: expDateStr,
+      timeToExpiration: round(timeToExpiration),
+      callGex: round(calls.reduce((acc, opt) => acc + opt.gex, 0)),
+      putGex: round(puts.reduce((acc, opt) => acc + opt.gex, 0)),
+      totalDex: round(dexProfile.reduce((acc, row) => acc + row.netDex, 0)),
+      callWall: walls.callWall,
+      putWall: walls.putWall,
+      gammaFlip: round(flip.flip),
+      gammaFlipStatus: flip.status,
+      atmIv: round(skew.atmIv),
+      riskReversal25d: round(skew.riskReversal25d),
+      maxPain: pin.maxPain,
+      oiCentroid: round(pin.oiCentroid),
+      pinStrike: pin.pinStrike,
+      pinRisk: pin.pinRisk,
+    });
+  }
+
+  return {
+    symbol: SYMBOL,
+    now: NOW.toISOString(),
+    spot,
+    chartCloses: chart.quotes.map((q) => q.close),
+    expirations,
+  };
+};
+
+const run = async () => {
+  const result = await analyze();
+  const actual = `${JSON.stringify(result, null, 2)}\n`;
+
+  if (process.argv.includes("--update")) {
+    await writeFile(EXPECTED_FILE, actual);
+    console.log(`[Fixtures] expected output written to ${EXPECTED_FILE}`);
+    return;
+  }
+
+  const expected = await readFile(EXPECTED_FILE, "utf8");
+  if (expected === actual) {
+    console.log(
+      `[Fixtures] ${SYMBOL}: ${result.expirations.length} expirations match ${EXPECTED_FILE}`
+    );
+    return;
+  }
+
+  // 첫 번째로 달라진 줄 위치 표시
+  const expectedLines = expected.split("\n");
+  const actualLines = actual.split("\n");
+  const line = expectedLines.findIndex((text, idx) => text !== actualLines[idx]);
+  console.error(`[Fixtures] output differs from ${EXPECTED_FILE} at line ${line + 1}`);
+  console.error(`  expected: ${expectedLines[line]?.trim()}`);
+  console.error(`  actual:   ${actualLines[line]?.trim()}`);
+  console.error("Run `yarn test --update` if the change is intended.");
+  process.exitCode = 1;
+};
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
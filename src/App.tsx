@@ -6,17 +6,23 @@ import {
 } from "lucide-react";
 import {
   fetchAnalysisData,
+  fetchGexHeatmap,
   fetchTickerAnalysis,
   fetchTickerOptionChain,
   fetchTickerOptionExpirations,
+  fetchZeroDte,
   type AnalysisResult,
+  type GexHeatmap as GexHeatmapData,
   type TickerAnalysis,
   type TickerOptionChain,
+  type ZeroDteAnalysis,
 } from "./services/optionService";
 import "./App.css";
 import QQQExtendedAnalysis from "./components/QQQExtendedAnalysis";
 import AssetSection from "./components/AssetSection";
+import GexHeatmap from "./components/GexHeatmap";
 import TickerSearchSection from "./components/TickerSearchSection";
+import ZeroDtePanel from "./components/ZeroDtePanel";
 import { ASSET_TABS, API_SYMBOL_MAP } from "./constants";
 
 const App: React.FC = () => {
@@ -83,6 +89,14 @@ const App: React.FC = () => {
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState<boolean>(false);
 
+  // GEX Heatmap (QQQ 행사가 × 만기)
+  const [gexHeatmap, setGexHeatmap] = useState<GexHeatmapData | null>(null);
+  const [gexHeatmapLoading, setGexHeatmapLoading] = useState<boolean>(false);
+  const [gexHeatmapError, setGexHeatmapError] = useState<string | null>(null);
+  const [zeroDte, setZeroDte] = useState<ZeroDteAnalysis | null>(null);
+  const [zeroDteLoading, setZeroDteLoading] = useState<boolean>(false);
+  const [zeroDteError, setZeroDteError] = useState<string | null>(null);
+
   // Ticker Analysis States
   const [tickerInput, setTickerInput] = useState<string>("");
   const [betaPeriod, setBetaPeriod] = useState<number>(1);
@@ -180,6 +194,7 @@ const App: React.FC = () => {
   });
   const pollingRef = useRef<number | null>(null);
   const tickerPollingRef = useRef<number | null>(null);
+  const zeroDtePollingRef = useRef<number | null>(null);
 
 
   const copyToClipboard = useCallback((text: string) => {
@@ -472,6 +487,57 @@ const App: React.FC = () => {
     [loadAssetOptionChain]
   );
 
+  // 체인 전체를 다시 받으므로 폴링 대상에서 제외 (초기 로드 + 새로고침 시에만)
+  const loadGexHeatmap = useCallback(async () => {
+    setGexHeatmapLoading(true);
+    setGexHeatmapError(null);
+    try {
+      const result = await fetchGexHeatmap(API_SYMBOL_MAP["QQQ"]);
+      setGexHeatmap(result);
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : "GEX Heatmap 조회 실패";
+      setGexHeatmapError(message);
+    } finally {
+      setGexHeatmapLoading(false);
+    }
+  }, []);
+
+  const loadZeroDte = useCallback(async () => {
+    setZeroDteLoading(true);
+    setZeroDteError(null);
+    try {
+      const result = await fetchZeroDte(API_SYMBOL_MAP["QQQ"]);
+      setZeroDte(result);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "0DTE 분석 조회 실패";
+      setZeroDteError(message);
+    } finally {
+      setZeroDteLoading(false);
+    }
+  }, []);
+
+  // 장중 1분 간격 (서버 히스토리 최소 기록 간격과 동일)
+  useEffect(() => {
+    if (zeroDtePollingRef.current) {
+      window.clearInterval(zeroDtePollingRef.current);
+      zeroDtePollingRef.current = null;
+    }
+
+    if (!isMarketOpenNY()) return;
+
+    zeroDtePollingRef.current = window.setInterval(() => {
+      loadZeroDte();
+    }, 60000);
+
+    return () => {
+      if (zeroDtePollingRef.current) {
+        window.clearInterval(zeroDtePollingRef.current);
+        zeroDtePollingRef.current = null;
+      }
+    };
+  }, [isMarketOpenNY, loadZeroDte]);
+
   const handleScrollToAsset = useCallback(
     (symbol: (typeof ASSET_TABS)[number]) => {
       const el = assetSectionRefs.current[symbol];
@@ -556,8 +622,19 @@ const App: React.FC = () => {
     text += `Current Price: $${data.currentPrice?.toFixed(2)}\n`;
     text += `Total Net GEX: ${data.totalNetGEX}\n`;
     text += `Market Regime: ${data.marketRegime}\n`;
-    text += `Gamma Flip: $${data.gammaFlip?.toFixed(2)}\n`;
-    text += `Volatility Trigger: $${data.volTrigger?.toFixed(2)}\n\n`;
+    text += `Gamma Flip: ${
+      typeof data.gammaFlip === "number"
+        ? `$${data.gammaFlip.toFixed(2)}`
+        : `없음 (${data.gammaFlipStatus ?? "no_data"})`
+    }\n`;
+    if (data.gammaFlipCrossings && data.gammaFlipCrossings.length > 1) {
+      text += `Gamma Flip Crossings: ${data.gammaFlipCrossings
+        .map((c) => `$${c.spot.toFixed(2)} (${c.direction})`)
+        .join(", ")}\n`;
+    }
+    text += `Volatility Trigger: ${
+      typeof data.volTrigger === "number" ? `$${data.volTrigger.toFixed(2)}` : "없음"
+    }\n\n`;
 
     text += `[ Recommendations ]\n`;
     data.recommendations.forEach((rec) => {
@@ -580,6 +657,52 @@ const App: React.FC = () => {
     });
     text += `\n`;
 
+    if (data.timeSeries.some((item) => item.maxPain != null)) {
+      const fmtLevel = (value?: number | null) =>
+        value != null ? `$${value.toFixed(2)}` : "-";
+      text += `[ Pin Levels ]\n`;
+      text += `Date\tMax Pain\tOI Centroid\tPin Strike\tPin Risk\n`;
+      data.timeSeries.forEach((item) => {
+        text += `${item.date}\t${fmtLevel(item.maxPain)}\t${fmtLevel(
+          item.oiCentroid
+        )}\t${fmtLevel(item.pinStrike)}\t${item.pinRisk ?? "-"}\n`;
+      });
+      text += `\n`;
+    }
+
+    if (data.ivTermStructure && data.ivTermStructure.points.length > 0) {
+      const term = data.ivTermStructure;
+      const fmtIv = (v: number | null) =>
+        v !== null ? `${(v * 100).toFixed(2)}%` : "-";
+      const fmtDiff = (v: number | null) =>
+        v !== null ? `${v >= 0 ? "+" : ""}${v.toFixed(2)}` : "-";
+      text += `[ ATM IV Term Structure ]\n`;
+      text += `Shape: ${term.shape} (30D - 7D: ${
+        term.slope !== null ? `${(term.slope * 100).toFixed(2)}%p` : "-"
+      })\n`;
+      text += `7D / 14D / 30D: ${fmtIv(term.iv7d)} / ${fmtIv(
+        term.iv14d
+      )} / ${fmtIv(term.iv30d)}\n`;
+      text += `VIX: ${term.vix?.toFixed(2) ?? "-"} (30D IV ${fmtDiff(
+        term.iv30dVsVix
+      )}) / VXN: ${term.vxn?.toFixed(2) ?? "-"} (30D IV ${fmtDiff(
+        term.iv30dVsVxn
+      )})\n`;
+      text += `Date\tDays\tATM IV\n`;
+      term.points.forEach((p) => {
+        text += `${p.date}\t${p.days.toFixed(1)}\t${fmtIv(p.atmIv)}\n`;
+      });
+      text += `\n`;
+    }
+
+    if (data.rateCurve) {
+      text += `[ Risk-Free Rate Curve (${data.rateCurve.source}) ]\n`;
+      data.rateCurve.points.forEach((p) => {
+        text += `${p.days}d\t${(p.rate * 100).toFixed(3)}%\n`;
+      });
+      text += `\n`;
+    }
+
     if (data.swingScenarios && data.swingScenarios.length > 0) {
       text += `[ Swing Strategy Scenarios ]\n`;
       data.swingScenarios.forEach((s) => {
@@ -683,6 +806,14 @@ const App: React.FC = () => {
     });
   }, [loadData]);
 
+  useEffect(() => {
+    loadGexHeatmap();
+  }, [loadGexHeatmap]);
+
+  useEffect(() => {
+    loadZeroDte();
+  }, [loadZeroDte]);
+
   useEffect(() => {
     let rafId: number | null = null;
 
@@ -867,7 +998,11 @@ const App: React.FC = () => {
             <span className="text-xs font-bold">원본 TXT</span>
           </button>
           <button
-            onClick={() => loadData("QQQ")}
+            onClick={() => {
+              loadData("QQQ");
+              loadGexHeatmap();
+              loadZeroDte();
+            }}
             className="flex-1 sm:flex-none p-2 hover:bg-slate-100 dark:hover:bg-slate-900 rounded-xl transition-colors flex items-center justify-center gap-2 px-4 border border-slate-200 dark:border-slate-700 text-blue-600"
           >
             <RefreshCw className="w-4 h-4" />
@@ -942,6 +1077,18 @@ const App: React.FC = () => {
           optionChain={optionChainBySymbol["QQQ"]}
         />
 
+        <GexHeatmap
+          heatmap={gexHeatmap}
+          loading={gexHeatmapLoading}
+          error={gexHeatmapError}
+        />
+
+        <ZeroDtePanel
+          analysis={zeroDte}
+          loading={zeroDteLoading}
+          error={zeroDteError}
+        />
+
         {/* 2. Ticker Search Section */}
         <TickerSearchSection
           tickerInput={tickerInput}
@@ -8,11 +8,15 @@ import {
   ComposedChart,
   Line,
   Area,
+  Bar,
+  Cell,
   ReferenceArea,
+  ReferenceLine,
 } from "recharts";
 import { Zap } from "lucide-react";
 import type { AnalysisResult, TickerOptionChain } from "../services/optionService";
 import { ASSET_TABS, API_SYMBOL_MAP } from "../constants";
+import RiskNeutralPanel from "./RiskNeutralPanel";
 
 interface AssetSectionProps {
   symbol: (typeof ASSET_TABS)[number];
@@ -98,6 +102,38 @@ const AssetSection: React.FC<AssetSectionProps> = ({
       return !Number.isNaN(itemDate.getTime()) && itemDate >= cutoff;
     });
   }, [assetData?.timeSeries, activeRangeFilter, supportsRangeFilter]);
+
+  // 행사가별 DEX: 현재가에 가장 가까운 행사가를 기준선으로 표시
+  const dexProfile = useMemo(
+    () =>
+      (assetData?.dexProfile ?? []).map((row) => ({
+        ...row,
+        netDexM: row.netDex / 1e6,
+      })),
+    [assetData?.dexProfile]
+  );
+  const dexSpotStrike = useMemo(() => {
+    if (!assetData || dexProfile.length === 0) return null;
+    return dexProfile.reduce((prev, cur) =>
+      Math.abs(cur.strike - assetData.currentPrice) <
+      Math.abs(prev.strike - assetData.currentPrice)
+        ? cur
+        : prev
+    ).strike;
+  }, [assetData, dexProfile]);
+
+  // ATM IV 기간 구조 (IV %, 잔존 일수 기준)
+  const termStructure = assetData?.ivTermStructure ?? null;
+  const termPoints = useMemo(
+    () =>
+      (termStructure?.points ?? []).map((p) => ({
+        ...p,
+        days: Number(p.days.toFixed(2)),
+        atmIvPct: Number((p.atmIv * 100).toFixed(2)),
+      })),
+    [termStructure]
+  );
+
   const chartTimeSeries = useMemo(() => {
     if (!supportsRangeFilter) return filteredTimeSeries;
     if (activeRangeFilter === "1y") {
@@ -128,6 +164,11 @@ const AssetSection: React.FC<AssetSectionProps> = ({
         "callGex",
         "putGex",
         "totalGex",
+        "callDex",
+        "putDex",
+        "totalDex",
+        "totalVex",
+        "totalCex",
         "pcrAll",
         "pcrFiltered",
         "sentiment",
@@ -135,6 +176,11 @@ const AssetSection: React.FC<AssetSectionProps> = ({
         "expectedPrice",
         "expectedUpper",
         "expectedLower",
+        "straddleUpper",
+        "straddleLower",
+        "maxPain",
+        "oiCentroid",
+        "pinRisk",
       ] as const;
       return Array.from(groups.entries())
         .sort(([a], [b]) => (a < b ? -1 : 1))
@@ -523,6 +569,50 @@ const AssetSection: React.FC<AssetSectionProps> = ({
                       dot={false}
                       name="1-SD 하단 (기대범위)"
                     />
+                    <Line
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey="straddleUpper"
+                      stroke="#f59e0b"
+                      strokeWidth={1}
+                      strokeDasharray="6 3"
+                      dot={false}
+                      connectNulls
+                      name="스트래들 상단 (시장 기대)"
+                    />
+                    <Line
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey="straddleLower"
+                      stroke="#f59e0b"
+                      strokeWidth={1}
+                      strokeDasharray="6 3"
+                      dot={false}
+                      connectNulls
+                      name="스트래들 하단 (시장 기대)"
+                    />
+                    <Line
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey="maxPain"
+                      stroke="#a855f7"
+                      strokeWidth={1.5}
+                      strokeDasharray="3 3"
+                      dot={{ r: 3, fill: "#a855f7" }}
+                      connectNulls
+                      name="Max Pain"
+                    />
+                    <Line
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey="oiCentroid"
+                      stroke="#64748b"
+                      strokeWidth={1}
+                      strokeDasharray="1 3"
+                      dot={false}
+                      connectNulls
+                      name="OI 중심"
+                    />
                     <Line
                       yAxisId="left"
                       type="monotone"
@@ -597,6 +687,16 @@ const AssetSection: React.FC<AssetSectionProps> = ({
                       dot={{ r: 4, fill: "#10b981" }}
                       name="Sentiment"
                     />
+                    <Line
+                      type="monotone"
+                      dataKey="pinRisk"
+                      stroke="#a855f7"
+                      strokeWidth={1.5}
+                      strokeDasharray="3 3"
+                      dot={{ r: 3, fill: "#a855f7" }}
+                      connectNulls
+                      name="Pin Risk (0~100)"
+                    />
                   </ComposedChart>
                 </ResponsiveContainer>
               </div>
@@ -606,6 +706,282 @@ const AssetSection: React.FC<AssetSectionProps> = ({
             </div>
           </section>
 
+          {dexProfile.length > 0 && (
+            <section className="p-4 md:p-6 border rounded-2xl shadow-sm bg-white overflow-hidden">
+              <div className="mb-6 border-b pb-4">
+                <h3 className="text-lg font-bold text-slate-800">
+                  딜러 델타 노출 (DEX) 행사가별
+                </h3>
+                <p className="text-xs text-slate-500 mt-1">
+                  순 DEX {assetData.totalDex !== undefined
+                    ? `${(assetData.totalDex / 1e9).toFixed(2)}B USD`
+                    : "-"}
+                  {" · "}양수(초록) 구간은 딜러 순 롱 델타(기초자산 매도 헤지), 음수(빨강) 구간은 순 숏 델타(매수 헤지)
+                </p>
+                {(assetData.totalVex !== undefined ||
+                  assetData.charmRehedge) && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {assetData.totalVex !== undefined &&
+                      `VEX ${(assetData.totalVex / 1e6).toFixed(1)}M/IV 1%p`}
+                    {assetData.totalCex !== undefined &&
+                      ` · CEX ${(assetData.totalCex / 1e6).toFixed(1)}M/일`}
+                    {assetData.charmRehedge &&
+                      ` · ${assetData.charmRehedge.sessionDate} Charm 재헤지 ${
+                        assetData.charmRehedge.direction === "buy" ? "매수" : "매도"
+                      } ${(
+                        Math.abs(assetData.charmRehedge.hedgeNotional) / 1e6
+                      ).toFixed(1)}M`}
+                  </p>
+                )}
+              </div>
+              <div className="overflow-x-auto pb-4 custom-scrollbar relative">
+                <div className="h-[300px] min-w-[900px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart
+                      data={dexProfile}
+                      margin={{ top: 10, right: 40, left: 10, bottom: 10 }}
+                    >
+                      <CartesianGrid
+                        strokeDasharray="3 3"
+                        vertical={false}
+                        stroke="#f1f5f9"
+                      />
+                      <XAxis
+                        dataKey="strike"
+                        tick={{ fontSize: 11, fontWeight: 600 }}
+                        stroke="#64748b"
+                      />
+                      <YAxis
+                        tick={{ fontSize: 11, fontWeight: 600 }}
+                        stroke="#64748b"
+                        label={{
+                          value: "Net DEX ($M)",
+                          angle: -90,
+                          position: "insideLeft",
+                          fontSize: 10,
+                          fontWeight: 700,
+                        }}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          borderRadius: "16px",
+                          border: "none",
+                          boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1)",
+                          fontSize: "12px",
+                          padding: "12px",
+                        }}
+                        cursor={{ fill: "#f1f5f9" }}
+                        formatter={(value) => [
+                          `${Number(value).toFixed(1)}M`,
+                          "Net DEX",
+                        ]}
+                      />
+                      <ReferenceLine y={0} stroke="#94a3b8" />
+                      {dexSpotStrike !== null && (
+                        <ReferenceLine
+                          x={dexSpotStrike}
+                          stroke="#1e293b"
+                          strokeDasharray="4 4"
+                          label={{
+                            value: "현재가",
+                            position: "top",
+                            fontSize: 10,
+                            fontWeight: 700,
+                          }}
+                        />
+                      )}
+                      <Bar dataKey="netDexM" name="Net DEX">
+                        {dexProfile.map((row) => (
+                          <Cell
+                            key={row.strike}
+                            fill={row.netDex >= 0 ? "#10b981" : "#ef4444"}
+                          />
+                        ))}
+                      </Bar>
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {termStructure && termPoints.length > 1 && (
+            <section className="p-4 md:p-6 border rounded-2xl shadow-sm bg-white overflow-hidden">
+              <div className="mb-6 border-b pb-4">
+                <h3 className="text-lg font-bold text-slate-800">
+                  ATM IV 기간 구조
+                  <span
+                    className={`ml-2 px-2 py-0.5 rounded-full text-[10px] font-black align-middle ${
+                      termStructure.shape === "backwardation"
+                        ? "bg-red-100 text-red-600"
+                        : termStructure.shape === "contango"
+                        ? "bg-emerald-100 text-emerald-700"
+                        : "bg-slate-100 text-slate-500"
+                    }`}
+                  >
+                    {termStructure.shape === "backwardation"
+                      ? "백워데이션"
+                      : termStructure.shape === "contango"
+                      ? "콘탱고"
+                      : termStructure.shape === "flat"
+                      ? "평탄"
+                      : "데이터 부족"}
+                  </span>
+                </h3>
+                <p className="text-xs text-slate-500 mt-1">
+                  7D {termStructure.iv7d !== null ? `${(termStructure.iv7d * 100).toFixed(1)}%` : "-"}
+                  {" · "}14D {termStructure.iv14d !== null ? `${(termStructure.iv14d * 100).toFixed(1)}%` : "-"}
+                  {" · "}30D {termStructure.iv30d !== null ? `${(termStructure.iv30d * 100).toFixed(1)}%` : "-"}
+                  {termStructure.vix !== null && ` · VIX ${termStructure.vix.toFixed(2)}`}
+                  {termStructure.iv30dVsVix !== null &&
+                    ` (30D ${termStructure.iv30dVsVix >= 0 ? "+" : ""}${termStructure.iv30dVsVix.toFixed(2)})`}
+                  {termStructure.vxn !== null && ` · VXN ${termStructure.vxn.toFixed(2)}`}
+                  {termStructure.iv30dVsVxn !== null &&
+                    ` (30D ${termStructure.iv30dVsVxn >= 0 ? "+" : ""}${termStructure.iv30dVsVxn.toFixed(2)})`}
+                </p>
+                <p className="text-xs text-slate-500 mt-1">
+                  단기 IV가 장기보다 높은 백워데이션은 단기 이벤트 / 스트레스 신호
+                </p>
+              </div>
+              <div className="h-[260px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart
+                    data={termPoints}
+                    margin={{ top: 10, right: 40, left: 10, bottom: 10 }}
+                  >
+                    <CartesianGrid
+                      strokeDasharray="3 3"
+                      vertical={false}
+                      stroke="#f1f5f9"
+                    />
+                    <XAxis
+                      dataKey="days"
+                      type="number"
+                      domain={[0, "dataMax"]}
+                      tick={{ fontSize: 11, fontWeight: 600 }}
+                      stroke="#64748b"
+                      unit="D"
+                    />
+                    <YAxis
+                      tick={{ fontSize: 11, fontWeight: 600 }}
+                      stroke="#64748b"
+                      domain={["auto", "auto"]}
+                      unit="%"
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        borderRadius: "16px",
+                        border: "none",
+                        boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1)",
+                        fontSize: "12px",
+                        padding: "12px",
+                      }}
+                      labelFormatter={(label) => `잔존 ${label}일`}
+                      formatter={(value) => [`${Number(value).toFixed(2)}%`, "ATM IV"]}
+                    />
+                    {termStructure.vix !== null && (
+                      <ReferenceLine
+                        y={termStructure.vix}
+                        stroke="#f59e0b"
+                        strokeDasharray="4 4"
+                        label={{ value: "VIX", position: "right", fontSize: 10, fontWeight: 700 }}
+                      />
+                    )}
+                    {termStructure.vxn !== null && (
+                      <ReferenceLine
+                        y={termStructure.vxn}
+                        stroke="#8b5cf6"
+                        strokeDasharray="4 4"
+                        label={{ value: "VXN", position: "right", fontSize: 10, fontWeight: 700 }}
+                      />
+                    )}
+                    <Line
+                      type="monotone"
+                      dataKey="atmIvPct"
+                      name="ATM IV"
+                      stroke="#6366f1"
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </section>
+          )}
+
+          {assetData.dealerModelComparison &&
+            assetData.dealerModelComparison.length > 0 && (
+              <section className="p-4 md:p-6 border rounded-2xl shadow-sm bg-white overflow-hidden">
+                <div className="mb-4 border-b pb-4">
+                  <h3 className="text-lg font-bold text-slate-800">
+                    딜러 포지셔닝 모델 비교
+                  </h3>
+                  <p className="text-xs text-slate-500 mt-1">
+                    classic: 딜러 콜 롱 / 풋 숏 · flow: 콜 거래량/OI 비중만큼 고객 매수 · custom: 사용자 지정 행사가별 고객 롱 비중 (
+                    <code>dealerModel</code> / <code>dealerPositions</code> 파라미터)
+                  </p>
+                </div>
+                <table className="w-full text-xs">
+                  <thead className="text-[10px] uppercase tracking-widest text-slate-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Model</th>
+                      <th className="px-3 py-2 text-right">Call GEX</th>
+                      <th className="px-3 py-2 text-right">Put GEX</th>
+                      <th className="px-3 py-2 text-right">Net GEX</th>
+                      <th className="px-3 py-2 text-right">Net DEX</th>
+                      <th className="px-3 py-2 text-right">Gamma Flip</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assetData.dealerModelComparison.map((row) => (
+                      <tr
+                        key={row.model}
+                        className={`border-t border-slate-100 font-mono ${
+                          row.model === (assetData.dealerModel ?? "classic")
+                            ? "bg-indigo-50/60 font-bold"
+                            : ""
+                        }`}
+                      >
+                        <td className="px-3 py-2 font-sans font-bold text-slate-700">
+                          {row.model}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {(row.callGex / 1e9).toFixed(2)}B
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {(row.putGex / 1e9).toFixed(2)}B
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right ${
+                            row.totalGex >= 0 ? "text-emerald-600" : "text-red-500"
+                          }`}
+                        >
+                          {(row.totalGex / 1e9).toFixed(2)}B
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right ${
+                            row.totalDex >= 0 ? "text-emerald-600" : "text-red-500"
+                          }`}
+                        >
+                          {(row.totalDex / 1e9).toFixed(2)}B
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {row.gammaFlip !== null
+                            ? `$${row.gammaFlip.toFixed(2)}`
+                            : row.gammaFlipStatus}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+          <RiskNeutralPanel
+            timeSeries={assetData.timeSeries}
+            currentPrice={assetData.currentPrice}
+          />
+
           <section className="rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-950 p-6">
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
               <div className="flex items-center gap-2">
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from "react";
+import type { GexHeatmap as GexHeatmapData } from "../services/optionService";
+
+type HeatmapMetric = "netGex" | "callGex" | "putGex" | "oi";
+
+interface GexHeatmapProps {
+  heatmap: GexHeatmapData | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const METRIC_LABELS: Record<HeatmapMetric, string> = {
+  netGex: "Net GEX",
+  callGex: "Call GEX",
+  putGex: "Put GEX",
+  oi: "OI",
+};
+
+const formatValue = (metric: HeatmapMetric, value: number) => {
+  if (metric === "oi") return value.toLocaleString();
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(0)}K`;
+  return value.toFixed(0);
+};
+
+const GexHeatmap: React.FC<GexHeatmapProps> = ({ heatmap, loading, error }) => {
+  const [metric, setMetric] = useState<HeatmapMetric>("netGex");
+
+  // 높은 행사가가 위로 오도록 역순 정렬 + 색상 강도 기준(최대 절댓값)
+  const { rows, maxAbs, spotStrike } = useMemo(() => {
+    if (!heatmap) return { rows: [], maxAbs: 0, spotStrike: null };
+    const valueOf = (cell: GexHeatmapData["cells"][number][number]) =>
+      metric === "oi" ? cell.callOI + cell.putOI : cell[metric];
+    const mapped = heatmap.strikes.map((strike, idx) => ({
+      strike,
+      values: heatmap.cells[idx].map(valueOf),
+    }));
+    const nearest = heatmap.strikes.reduce<number | null>(
+      (prev, strike) =>
+        prev === null ||
+        Math.abs(strike - heatmap.currentPrice) <
+          Math.abs(prev - heatmap.currentPrice)
+          ? strike
+          : prev,
+      null
+    );
+    return {
+      rows: mapped.reverse(),
+      maxAbs: Math.max(
+        0,
+        ...mapped.flatMap((row) => row.values.map((v) => Math.abs(v)))
+      ),
+      spotStrike: nearest,
+    };
+  }, [heatmap, metric]);
+
+  const cellColor = (value: number) => {
+    if (maxAbs === 0 || value === 0) return "transparent";
+    // 제곱근 스케일: 작은 값도 구분되도록
+    const intensity = Math.sqrt(Math.abs(value) / maxAbs);
+    if (metric === "oi") return `rgba(99, 102, 241, ${intensity})`;
+    return value > 0
+      ? `rgba(16, 185, 129, ${intensity})`
+      : `rgba(239, 68, 68, ${intensity})`;
+  };
+
+  return (
+    <section className="p-4 md:p-6 border rounded-2xl shadow-sm bg-white overflow-hidden">
+      <div className="mb-4 border-b pb-4 flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">
+            행사가 × 만기 GEX Heatmap
+          </h2>
+          <p className="text-[11px] text-slate-500 mt-1">
+            30일 내 만기 전체에서 감마가 몰린 행사가를 한눈에 확인합니다. 초록 = 양(+), 빨강 = 음(-), 진할수록 큰 값.
+          </p>
+        </div>
+        <div className="flex items-center gap-1 rounded-full border border-slate-200 bg-white p-0.5">
+          {(Object.keys(METRIC_LABELS) as HeatmapMetric[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setMetric(key)}
+              className={`px-2.5 py-0.5 rounded-full text-[10px] font-black transition-colors ${
+                metric === key
+                  ? "bg-indigo-500 text-white"
+                  : "text-slate-500 hover:text-indigo-600"
+              }`}
+            >
+              {METRIC_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+      {!heatmap && !error && (
+        <div className="text-xs text-slate-400">
+          {loading ? "Heatmap 데이터를 불러오는 중..." : "데이터 없음"}
+        </div>
+      )}
+
+      {heatmap && rows.length > 0 && (
+        <div className="overflow-x-auto pb-4 custom-scrollbar">
+          <table className="min-w-[900px] w-full border-collapse text-[10px]">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-white px-2 py-1 text-left font-bold text-slate-500">
+                  Strike
+                </th>
+                {heatmap.expirations.map((exp) => (
+                  <th
+                    key={exp}
+                    className="px-1 py-1 font-bold text-slate-500 whitespace-nowrap"
+                  >
+                    {exp.slice(5).replace("-", "/")}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.strike}
+                  className={
+                    row.strike === spotStrike ? "outline outline-2 outline-slate-800" : ""
+                  }
+                >
+                  <td className="sticky left-0 bg-white px-2 py-0.5 font-bold text-slate-700">
+                    {row.strike}
+                  </td>
+                  {row.values.map((value, idx) => (
+                    <td
+                      key={heatmap.expirations[idx]}
+                      title={`${row.strike} / ${heatmap.expirations[idx]}: ${formatValue(
+                        metric,
+                        value
+                      )}`}
+                      className="px-1 py-0.5 text-center text-slate-700 border border-slate-100"
+                      style={{ backgroundColor: cellColor(value) }}
+                    >
+                      {value !== 0 ? formatValue(metric, value) : ""}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400 mt-2">
+            테두리 행: 현재가(${heatmap.currentPrice.toFixed(2)})에 가장 가까운 행사가
+          </p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default GexHeatmap;
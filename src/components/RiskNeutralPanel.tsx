@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from "react";
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ComposedChart,
+  Area,
+  ReferenceArea,
+  ReferenceLine,
+} from "recharts";
+import type {
+  RiskNeutralPoint,
+  TimeSeriesData,
+} from "../services/optionService";
+
+interface RiskNeutralPanelProps {
+  timeSeries: TimeSeriesData[];
+  currentPrice: number;
+}
+
+// CDF 선형 보간: P(S_T < price)
+const probabilityBelow = (points: RiskNeutralPoint[], price: number) => {
+  if (points.length === 0) return null;
+  if (price <= points[0].price) return points[0].probBelow;
+  for (let i = 1; i < points.length; i++) {
+    const low = points[i - 1];
+    const high = points[i];
+    if (price <= high.price) {
+      return (
+        low.probBelow +
+        ((high.probBelow - low.probBelow) * (price - low.price)) /
+          (high.price - low.price)
+      );
+    }
+  }
+  return points[points.length - 1].probBelow;
+};
+
+const formatPct = (value: number | null) =>
+  value !== null ? `${(value * 100).toFixed(1)}%` : "-";
+
+const RiskNeutralPanel: React.FC<RiskNeutralPanelProps> = ({
+  timeSeries,
+  currentPrice,
+}) => {
+  const candidates = useMemo(
+    () => timeSeries.filter((item) => item.riskNeutral),
+    [timeSeries]
+  );
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [targetPrice, setTargetPrice] = useState("");
+
+  const selected =
+    candidates.find((item) => item.date === selectedDate) ?? candidates[0];
+  const riskNeutral = selected?.riskNeutral ?? null;
+
+  const target = Number(targetPrice);
+  const targetProbBelow =
+    riskNeutral && targetPrice.trim() !== "" && target > 0
+      ? probabilityBelow(riskNeutral.distribution, target)
+      : null;
+
+  if (!riskNeutral) return null;
+
+  return (
+    <section className="p-4 md:p-6 border rounded-2xl shadow-sm bg-white overflow-hidden">
+      <div className="mb-4 border-b pb-4 flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">
+            위험중립 확률 분포
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            옵션 가격(스마일)에서 역산한 만기 가격 분포 · 음영: 25~75 / 10~90 백분위
+          </p>
+        </div>
+        <select
+          value={selected?.date ?? ""}
+          onChange={(e) => setSelectedDate(e.target.value)}
+          className="px-3 py-1.5 rounded-xl border border-slate-200 text-xs font-bold text-slate-600 bg-white"
+        >
+          {candidates.map((item) => (
+            <option key={item.date} value={item.date}>
+              {item.date} 만기
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+        <div className="p-3 rounded-xl border border-slate-100">
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            현재가 위 마감
+          </div>
+          <div className="text-lg font-black text-slate-700">
+            {formatPct(riskNeutral.probAboveSpot)}
+          </div>
+        </div>
+        <div className="p-3 rounded-xl border border-rose-100 bg-rose-50/40">
+          <div className="text-[10px] font-bold text-rose-500 uppercase tracking-widest">
+            Call Wall ${riskNeutral.callWall.toFixed(0)}
+          </div>
+          <div className="text-lg font-black text-rose-600">
+            {formatPct(riskNeutral.probAboveCallWall)}
+          </div>
+          <div className="text-[10px] text-rose-400">
+            터치 {formatPct(riskNeutral.probTouchCallWall)}
+          </div>
+        </div>
+        <div className="p-3 rounded-xl border border-emerald-100 bg-emerald-50/40">
+          <div className="text-[10px] font-bold text-emerald-600 uppercase tracking-widest">
+            Put Wall ${riskNeutral.putWall.toFixed(0)}
+          </div>
+          <div className="text-lg font-black text-emerald-700">
+            {formatPct(riskNeutral.probBelowPutWall)}
+          </div>
+          <div className="text-[10px] text-emerald-500">
+            터치 {formatPct(riskNeutral.probTouchPutWall)}
+          </div>
+        </div>
+        <div className="p-3 rounded-xl border border-slate-100">
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            가격 입력
+          </div>
+          <input
+            type="number"
+            value={targetPrice}
+            onChange={(e) => setTargetPrice(e.target.value)}
+            placeholder={currentPrice.toFixed(2)}
+            className="w-full mt-1 px-2 py-1 rounded-lg border border-slate-200 text-xs font-mono"
+          />
+          <div className="text-[10px] text-slate-500 mt-1">
+            위 {formatPct(targetProbBelow !== null ? 1 - targetProbBelow : null)} / 아래{" "}
+            {formatPct(targetProbBelow)}
+          </div>
+        </div>
+      </div>
+
+      <div className="h-[260px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={riskNeutral.distribution}
+            margin={{ top: 10, right: 30, left: 10, bottom: 10 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis
+              dataKey="price"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(v: number) => v.toFixed(0)}
+              tick={{ fontSize: 11, fontWeight: 600 }}
+              stroke="#64748b"
+            />
+            <YAxis hide />
+            <Tooltip
+              labelFormatter={(label) => `$${Number(label).toFixed(2)}`}
+              formatter={(_value, _name, item) => [
+                formatPct(1 - (item.payload as RiskNeutralPoint).probBelow),
+                "이 가격 위 마감",
+              ]}
+            />
+            <ReferenceArea
+              x1={riskNeutral.percentiles.p10}
+              x2={riskNeutral.percentiles.p90}
+              fill="#6366f1"
+              fillOpacity={0.05}
+            />
+            <ReferenceArea
+              x1={riskNeutral.percentiles.p25}
+              x2={riskNeutral.percentiles.p75}
+              fill="#6366f1"
+              fillOpacity={0.1}
+            />
+            <ReferenceLine
+              x={currentPrice}
+              stroke="#1e293b"
+              strokeDasharray="4 4"
+              label={{ value: "현재가", position: "top", fontSize: 10, fontWeight: 700 }}
+            />
+            <ReferenceLine x={riskNeutral.callWall} stroke="#ef4444" strokeDasharray="2 2" />
+            <ReferenceLine x={riskNeutral.putWall} stroke="#3b82f6" strokeDasharray="2 2" />
+            <Area
+              type="monotone"
+              dataKey="density"
+              stroke="#6366f1"
+              fill="#6366f1"
+              fillOpacity={0.2}
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-2">
+        5 / 25 / 50 / 75 / 95 백분위: $
+        {[
+          riskNeutral.percentiles.p5,
+          riskNeutral.percentiles.p25,
+          riskNeutral.percentiles.p50,
+          riskNeutral.percentiles.p75,
+          riskNeutral.percentiles.p95,
+        ]
+          .map((v) => v.toFixed(2))
+          .join(" / $")}
+        {" · "}터치 확률은 반사 원리 근사 (만기 마감 확률 × 2)
+      </p>
+    </section>
+  );
+};
+
+export default RiskNeutralPanel;
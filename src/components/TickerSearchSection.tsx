@@ -14,6 +14,7 @@ import {
   ResponsiveContainer,
   ComposedChart,
   Line,
+  ReferenceLine,
 } from "recharts";
 import type {
   AnalysisResult,
@@ -78,6 +79,18 @@ const TickerSearchSection: React.FC<TickerSearchSectionProps> = ({
         selectedTickerRange.expectedResistance) /
         2);
 
+  // 스마일 차트용 (IV %)
+  const tickerSkew = tickerOptionChain?.skew ?? null;
+  const smileData =
+    tickerSkew?.smile.map((p) => ({
+      strike: p.strike,
+      iv: Number((p.iv * 100).toFixed(2)),
+      callIv: p.callIv !== null ? Number((p.callIv * 100).toFixed(2)) : null,
+      putIv: p.putIv !== null ? Number((p.putIv * 100).toFixed(2)) : null,
+    })) ?? [];
+  const formatVolPoints = (value: number | null) =>
+    value !== null ? `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%p` : "-";
+
 
   return (
     <section className="mt-12 p-6 md:p-8 border border-slate-200 rounded-3xl bg-slate-50/50 shadow-sm">
@@ -502,6 +515,119 @@ const TickerSearchSection: React.FC<TickerSearchSectionProps> = ({
                     </div>
                   </div>
 
+                  {tickerSkew && smileData.length > 1 && (
+                    <div className="p-4 rounded-2xl border border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900">
+                      <div className="flex flex-col md:flex-row md:items-end justify-between gap-2 mb-3">
+                        <div>
+                          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                            IV Skew / Smile
+                          </div>
+                          <div className="text-[10px] text-slate-400 mt-1">
+                            RR25 음수 확대 = 하락 헤지(풋) 수요 증가
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-right">
+                          <div>
+                            <div className="text-[9px] font-bold text-slate-400 uppercase">
+                              RR 25Δ
+                            </div>
+                            <div
+                              className={`text-sm font-black ${
+                                (tickerSkew.riskReversal25d ?? 0) < 0
+                                  ? "text-red-500"
+                                  : "text-emerald-600"
+                              }`}
+                            >
+                              {formatVolPoints(tickerSkew.riskReversal25d)}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-[9px] font-bold text-slate-400 uppercase">
+                              BF 25Δ
+                            </div>
+                            <div className="text-sm font-black text-slate-700">
+                              {formatVolPoints(tickerSkew.butterfly25d)}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-[9px] font-bold text-slate-400 uppercase">
+                              Put Slope
+                            </div>
+                            <div className="text-sm font-black text-red-500">
+                              {formatVolPoints(tickerSkew.putSkewSlope)}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-[9px] font-bold text-slate-400 uppercase">
+                              Call Slope
+                            </div>
+                            <div className="text-sm font-black text-emerald-600">
+                              {formatVolPoints(tickerSkew.callSkewSlope)}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                      <div className="h-[240px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <ComposedChart data={smileData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                            <XAxis
+                              dataKey="strike"
+                              type="number"
+                              domain={["dataMin", "dataMax"]}
+                              tick={{ fontSize: 10 }}
+                            />
+                            <YAxis
+                              tick={{ fontSize: 10 }}
+                              unit="%"
+                              domain={["auto", "auto"]}
+                            />
+                            <Tooltip
+                              formatter={(value) =>
+                                typeof value === "number" ? `${value.toFixed(2)}%` : value
+                              }
+                              labelFormatter={(label) => `Strike $${label}`}
+                            />
+                            {tickerOptionChain.summary.spotPrice && (
+                              <ReferenceLine
+                                x={tickerOptionChain.summary.spotPrice}
+                                stroke="#0f172a"
+                                strokeDasharray="4 4"
+                                label={{ value: "현재가", fontSize: 10, position: "top" }}
+                              />
+                            )}
+                            <Line
+                              type="monotone"
+                              dataKey="putIv"
+                              name="Put IV"
+                              stroke="#f87171"
+                              strokeWidth={1}
+                              dot={false}
+                              connectNulls
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="callIv"
+                              name="Call IV"
+                              stroke="#34d399"
+                              strokeWidth={1}
+                              dot={false}
+                              connectNulls
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="iv"
+                              name="OTM IV"
+                              stroke="#6366f1"
+                              strokeWidth={2}
+                              dot={false}
+                            />
+                          </ComposedChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                     <div className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl overflow-hidden">
                       <div className="px-4 py-3 bg-emerald-50 dark:bg-emerald-950/60 text-emerald-700 dark:text-emerald-200 text-xs font-bold uppercase tracking-widest">
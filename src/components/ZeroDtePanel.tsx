@@ -0,0 +1,219 @@
+import React, { useMemo } from "react";
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  LineChart,
+  Line,
+} from "recharts";
+import type {
+  LevelShift,
+  ZeroDteAnalysis,
+} from "../services/optionService";
+
+interface ZeroDtePanelProps {
+  analysis: ZeroDteAnalysis | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-US", {
+    timeZone: "America/New_York",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+const formatGex = (value: number) => {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(0)}K`;
+  return value.toFixed(0);
+};
+
+const formatShift = (
+  value: number | null,
+  format: (v: number) => string = (v) => v.toFixed(2)
+) => {
+  if (value === null) return "-";
+  return `${value > 0 ? "+" : ""}${format(value)}`;
+};
+
+const shiftColor = (value: number | null) =>
+  value === null || value === 0
+    ? "text-slate-400"
+    : value > 0
+      ? "text-emerald-600"
+      : "text-red-500";
+
+const ZeroDtePanel: React.FC<ZeroDtePanelProps> = ({
+  analysis,
+  loading,
+  error,
+}) => {
+  const chartData = useMemo(
+    () =>
+      (analysis?.history ?? []).map((point) => ({
+        time: formatTime(point.timestamp),
+        spot: point.spot,
+        callWall: point.callWall,
+        putWall: point.putWall,
+        gammaFlip: point.gammaFlip,
+      })),
+    [analysis]
+  );
+
+  const rows: {
+    label: string;
+    value: string;
+    shift: LevelShift;
+    format?: (v: number) => string;
+  }[] = analysis
+    ? [
+        {
+          label: "현재가",
+          value: analysis.point.spot.toFixed(2),
+          shift: analysis.shifts.spot,
+        },
+        {
+          label: "Call Wall",
+          value: analysis.point.callWall?.toFixed(2) ?? "-",
+          shift: analysis.shifts.callWall,
+        },
+        {
+          label: "Put Wall",
+          value: analysis.point.putWall?.toFixed(2) ?? "-",
+          shift: analysis.shifts.putWall,
+        },
+        {
+          label: "Gamma Flip",
+          value: analysis.point.gammaFlip?.toFixed(2) ?? "-",
+          shift: analysis.shifts.gammaFlip,
+        },
+        {
+          label: "Net GEX",
+          value: formatGex(analysis.point.netGex),
+          shift: analysis.shifts.netGex,
+          format: formatGex,
+        },
+      ]
+    : [];
+
+  return (
+    <section className="p-4 md:p-6 border rounded-2xl shadow-sm bg-white overflow-hidden">
+      <div className="mb-4 border-b pb-4 flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">0DTE 장중 레벨 추적</h2>
+          <p className="text-[11px] text-slate-500 mt-1">
+            당일 만기만 호출 시점 현재가로 다시 계산해 콜/풋 월과 감마 플립의 장중 이동을 기록합니다.
+          </p>
+        </div>
+        {analysis && (
+          <div className="text-[11px] text-slate-500 text-right">
+            <div className="font-bold text-slate-700">
+              만기 {analysis.expirationDate}
+              {!analysis.isZeroDte && (
+                <span className="ml-1 text-amber-600">(당일 만기 없음 · 기록 안 함)</span>
+              )}
+              {analysis.isZeroDte && !analysis.recorded && (
+                <span className="ml-1 text-amber-600">(요청별 설정 · 기록 안 함)</span>
+              )}
+            </div>
+            <div>
+              마감까지 {Math.floor(analysis.minutesToClose / 60)}시간{" "}
+              {analysis.minutesToClose % 60}분 · Pin Risk {analysis.point.pinRisk}
+              {analysis.point.pinStrike !== null && ` @ ${analysis.point.pinStrike}`}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+      {!analysis && !error && (
+        <div className="text-xs text-slate-400">
+          {loading ? "0DTE 데이터를 불러오는 중..." : "데이터 없음"}
+        </div>
+      )}
+
+      {analysis && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="lg:col-span-2 h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="time" tick={{ fontSize: 10 }} />
+                <YAxis domain={["auto", "auto"]} tick={{ fontSize: 10 }} width={50} />
+                <Tooltip />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                <Line
+                  type="monotone"
+                  dataKey="spot"
+                  name="현재가"
+                  stroke="#0f172a"
+                  strokeWidth={2}
+                  dot={chartData.length <= 1}
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="callWall"
+                  name="Call Wall"
+                  stroke="#10b981"
+                  dot={chartData.length <= 1}
+                  connectNulls
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="putWall"
+                  name="Put Wall"
+                  stroke="#ef4444"
+                  dot={chartData.length <= 1}
+                  connectNulls
+                />
+                <Line
+                  type="monotone"
+                  dataKey="gammaFlip"
+                  name="Gamma Flip"
+                  stroke="#f59e0b"
+                  strokeDasharray="5 3"
+                  dot={chartData.length <= 1}
+                  connectNulls
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <table className="w-full text-[11px] self-start">
+            <thead>
+              <tr className="text-slate-500 border-b">
+                <th className="text-left py-1 font-bold">레벨</th>
+                <th className="text-right py-1 font-bold">현재</th>
+                <th className="text-right py-1 font-bold">시작 대비</th>
+                <th className="text-right py-1 font-bold">직전 대비</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label} className="border-b border-slate-100">
+                  <td className="py-1 font-bold text-slate-700">{row.label}</td>
+                  <td className="py-1 text-right text-slate-700">{row.value}</td>
+                  <td className={`py-1 text-right ${shiftColor(row.shift.fromOpen)}`}>
+                    {formatShift(row.shift.fromOpen, row.format)}
+                  </td>
+                  <td className={`py-1 text-right ${shiftColor(row.shift.fromPrevious)}`}>
+                    {formatShift(row.shift.fromPrevious, row.format)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ZeroDtePanel;
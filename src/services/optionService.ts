@@ -10,6 +10,124 @@ export interface OptionData {
   expirationDate: Date;
   gamma?: number;
   gex?: number;
+  delta?: number;
+  dex?: number; // 딜러 델타 노출 (딜러 부호 × delta, classic: 콜·풋 모두 +)
+  previousOpenInterest?: number | null; // 전 거래일 스냅샷 OI
+  oiChange?: number | null; // 전 거래일 대비 OI 변화 (계약 수)
+}
+
+export type GammaFlipStatus = "flip" | "all_positive" | "all_negative" | "no_data";
+
+export interface GammaFlipCrossing {
+  spot: number;
+  direction: "negative_to_positive" | "positive_to_negative";
+}
+
+export interface StrikeDex {
+  strike: number;
+  callDex: number;
+  putDex: number;
+  netDex: number;
+}
+
+export interface CharmRehedge {
+  sessionDate: string;
+  days: number;
+  dealerDeltaChange: number; // 시간 경과로 인한 딜러 델타 변화 ($)
+  hedgeNotional: number; // + 매수 / − 매도
+  direction: "buy" | "sell";
+}
+
+export interface SmilePoint {
+  strike: number;
+  moneyness: number;
+  iv: number; // OTM 기준 (행사가 < spot: 풋, 이상: 콜)
+  callIv: number | null;
+  putIv: number | null;
+}
+
+export interface IvSkew {
+  atmIv: number | null;
+  put25dIv: number | null;
+  call25dIv: number | null;
+  riskReversal25d: number | null; // call25 - put25 (음수 = 풋 스큐 우위)
+  butterfly25d: number | null;
+  putSkewSlope: number | null; // 행사가 1% 하락당 IV 변화
+  callSkewSlope: number | null; // 행사가 1% 상승당 IV 변화
+  smile: SmilePoint[];
+}
+
+export type DealerModel = "classic" | "flow" | "custom";
+
+export interface DealerModelSummary {
+  model: DealerModel;
+  callGex: number;
+  putGex: number;
+  totalGex: number;
+  callDex: number;
+  putDex: number;
+  totalDex: number;
+  gammaFlip: number | null;
+  gammaFlipStatus: GammaFlipStatus;
+}
+
+export interface RiskNeutralPoint {
+  price: number;
+  probBelow: number; // P(S_T < price)
+  density: number;
+}
+
+export interface RiskNeutralDistribution {
+  forward: number;
+  mean: number;
+  probAboveSpot: number;
+  probBelowSpot: number;
+  callWall: number;
+  probAboveCallWall: number;
+  probTouchCallWall: number; // 반사 원리 근사
+  putWall: number;
+  probBelowPutWall: number;
+  probTouchPutWall: number;
+  percentiles: {
+    p5: number;
+    p10: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+    p95: number;
+  };
+  distribution: RiskNeutralPoint[];
+}
+
+export interface TermStructurePoint {
+  date: string;
+  isoDate: string;
+  days: number;
+  atmIv: number;
+}
+
+export interface IvTermStructure {
+  points: TermStructurePoint[];
+  iv7d: number | null;
+  iv14d: number | null;
+  iv30d: number | null;
+  slope: number | null; // iv30d - iv7d (양수 = 콘탱고)
+  shape: "contango" | "backwardation" | "flat" | "insufficient_data";
+  vix: number | null;
+  vxn: number | null;
+  iv30dVsVix: number | null; // iv30d(%) - VIX
+  iv30dVsVxn: number | null; // iv30d(%) - VXN
+}
+
+export interface RateCurvePoint {
+  days: number;
+  rate: number; // 연속 복리 연율
+}
+
+export interface RateCurve {
+  source: "file" | "irx" | "constant";
+  points: RateCurvePoint[];
 }
 
 export interface Recommendation {
@@ -28,11 +146,18 @@ export interface TimeSeriesData {
   putSupport: number;
   callWallOI?: number; // Call Wall의 OI
   putWallOI?: number; // Put Wall의 OI
-  gammaFlip: number;
-  volTrigger: number;
+  gammaFlip: number | null; // 범위 내 Flip 없으면 null
+  volTrigger: number | null;
+  gammaFlipStatus?: GammaFlipStatus;
+  gammaFlipCrossings?: GammaFlipCrossing[];
   callGex: number;
   putGex: number;
   totalGex: number;
+  callDex?: number;
+  putDex?: number;
+  totalDex?: number;
+  totalVex?: number;
+  totalCex?: number;
   pcrAll: number;
   pcrFiltered: number;
   sentiment: number;
@@ -45,6 +170,14 @@ export interface TimeSeriesData {
   };
   expectedUpper: number;
   expectedLower: number;
+  straddleMove?: number | null; // ATM 스트래들 가격 기반 기대 변동폭
+  straddleUpper?: number | null;
+  straddleLower?: number | null;
+  riskFreeRate?: number | null; // 만기별 무위험 금리 (금리 곡선 보간)
+  maxPain?: number | null; // 전체 체인 기준 Max Pain
+  oiCentroid?: number | null; // OI 가중 평균 행사가
+  pinStrike?: number | null; // 현재가 ±1 SD 내 OI 최대 행사가
+  pinRisk?: number | null; // 0~100 만기 핀 고정 가능성
   vix?: number | null; // VIX 지수 추가
   trapWarning?: {
     isNearCallWall: boolean;
@@ -56,13 +189,21 @@ export interface TimeSeriesData {
     putWallOIChange: number | null;
     totalCallOIChange: number | null;
     totalPutOIChange: number | null;
-  }; // 전일 대비 OI 변화율
+    previousSessionDate: string | null;
+    reason:
+      | "archive_disabled"
+      | "no_prior_snapshot"
+      | "expiration_not_in_prior_snapshot"
+      | null;
+  }; // 전 거래일 스냅샷 대비 OI 변화율
   volumeOIRatio?: {
     callWall: number;
     putWall: number;
     totalCall: number;
     totalPut: number;
   }; // Volume/OI 비율
+  skew?: IvSkew | null; // IV 스큐 / 스마일
+  riskNeutral?: RiskNeutralDistribution | null; // 위험중립 확률 분포
 }
 
 export interface IBZone {
@@ -73,6 +214,8 @@ export interface IBZone {
 export interface SwingScenario {
   entryDate: string;
   exitDate: string;
+  entryIsoDate: string;
+  exitIsoDate: string;
   entryPrice: number;
   exitPrice: number;
   extensionPrice: number;
@@ -105,6 +248,27 @@ export interface SentimentRoadmap {
   timeLabel: string;
 }
 
+// 서버에서 적용된 분석 파라미터 (api/analysis/config.ts 와 동일)
+export interface AnalysisConfig {
+  riskFreeRate: number;
+  dividendYield: number;
+  ivClampMin: number;
+  ivClampMax: number;
+  scalpSdMultiplier: number;
+  volatilityTriggerRatio: number;
+  moneynessFilter: number;
+  expirationWeightExponent: number;
+  putDominanceRatio: number;
+  callWallProximity: number;
+  swingBaseTargetRatio: number;
+  swingProbabilityMin: number;
+  swingProbabilityMax: number;
+  maxSpreadRatio: number; // 0 = 스프레드 필터 비활성
+  excludeZeroBid: boolean; // bid 0 옵션 제외
+  pricingModel: "black-scholes" | "binomial"; // 유럽형 BS / 미국형 이항 트리
+  useRateCurve: boolean; // 만기별 금리 곡선 (false = riskFreeRate 고정)
+}
+
 export interface AnalysisResult {
   symbol?: string;
   currentPrice: number;
@@ -118,15 +282,27 @@ export interface AnalysisResult {
   putSupport: number;
   totalNetGEX: string;
   marketRegime: string;
-  gammaFlip: number;
-  volTrigger: number;
+  gammaFlip: number | null; // 범위 내 Flip 없으면 null
+  volTrigger: number | null;
+  gammaFlipStatus?: GammaFlipStatus;
+  gammaFlipCrossings?: GammaFlipCrossing[]; // ±10% 범위 내 모든 부호 전환 지점
+  dealerModel?: DealerModel; // 적용된 딜러 포지셔닝 모델
+  dealerModelComparison?: DealerModelSummary[]; // 모델별 GEX / Gamma Flip 비교
   totalGex: number;
+  totalDex?: number; // 전 만기 합산 순 DEX
+  dexProfile?: StrikeDex[]; // 행사가별 DEX (전 만기 합산)
+  totalVex?: number; // Vanna 노출 (IV 1%p당)
+  totalCex?: number; // Charm 노출 (1일당)
+  charmRehedge?: CharmRehedge; // 다음 세션 Charm 재헤지 추정
+  ivTermStructure?: IvTermStructure; // ATM IV 기간 구조 + VIX/VXN 비교
+  rateCurve?: RateCurve; // 무위험 금리 곡선 (file / irx / constant)
   recommendations: Recommendation[];
   swingScenarios?: SwingScenario[];
   trendForecast?: TrendForecast[];
   segmentedTrends?: SegmentedTrend[];
   sentimentRoadmap?: SentimentRoadmap[];
   ibZone?: IBZone | null; // IB 영역 (장 시작 30분 고점/저점)
+  config?: AnalysisConfig;
 }
 
 export interface TickerTimeSeriesData {
@@ -162,6 +338,85 @@ export interface TickerAnalysis {
   segmentedTrends?: SegmentedTrend[];
   sentimentRoadmap?: SentimentRoadmap[];
   trendForecast?: TrendForecast[];
+  config?: AnalysisConfig;
+}
+
+export interface GexCurvePoint {
+  spot: number;
+  netGex: number;
+}
+
+export interface GexProfileSeries {
+  gammaFlip: number | null; // 범위 내 부호 전환 없으면 null
+  gammaFlipStatus: GammaFlipStatus;
+  gammaFlipCrossings: GammaFlipCrossing[];
+  callWall: number | null;
+  putWall: number | null;
+  curve: GexCurvePoint[];
+}
+
+export interface GexProfile {
+  symbol: string;
+  currentPrice: number;
+  grid: { range: number; step: number; points: number };
+  aggregate: GexProfileSeries;
+  expirations: (GexProfileSeries & { date: string; isoDate: string })[];
+  dealerModel?: DealerModel;
+  config?: AnalysisConfig;
+}
+
+export interface GexHeatmapCell {
+  callGex: number;
+  putGex: number;
+  netGex: number;
+  callOI: number;
+  putOI: number;
+}
+
+export interface GexHeatmap {
+  symbol: string;
+  currentPrice: number;
+  expirations: string[]; // YYYY-MM-DD
+  strikes: number[]; // 오름차순
+  cells: GexHeatmapCell[][]; // cells[행사가 index][만기 index]
+  dealerModel?: DealerModel;
+  config?: AnalysisConfig;
+}
+
+export interface IntradayPoint {
+  timestamp: string; // ISO
+  spot: number;
+  callWall: number | null;
+  putWall: number | null;
+  gammaFlip: number | null;
+  gammaFlipStatus: GammaFlipStatus;
+  callGex: number;
+  putGex: number;
+  netGex: number;
+  atmIv: number | null;
+  maxPain: number | null;
+  pinStrike: number | null;
+  pinRisk: number;
+}
+
+export interface LevelShift {
+  fromOpen: number | null; // 세션 첫 기록 대비
+  fromPrevious: number | null; // 직전 기록 대비
+}
+
+export interface ZeroDteAnalysis {
+  symbol: string;
+  currentPrice: number;
+  expirationDate: string; // YYYY-MM-DD
+  isZeroDte: boolean; // false면 당일 만기 없음 (가장 가까운 만기, 히스토리 미기록)
+  recorded: boolean; // 공유 히스토리 기록 여부 (당일 만기 + 서버 기본 설정 + classic 모델만)
+  timeToExpiration: number;
+  minutesToClose: number;
+  point: IntradayPoint;
+  shifts: Record<"spot" | "callWall" | "putWall" | "gammaFlip" | "netGex", LevelShift>;
+  history: IntradayPoint[]; // 시간 오름차순, 마지막 = point
+  dealerModel?: DealerModel;
+  config?: AnalysisConfig;
 }
 
 export interface TickerOptionExpirationList {
@@ -197,6 +452,7 @@ export interface TickerOptionChain {
   summary: TickerOptionChainSummary;
   calls: TickerOptionRow[];
   puts: TickerOptionRow[];
+  skew?: IvSkew | null;
   links: {
     overview: string;
     expiration: string;
@@ -313,3 +569,45 @@ export const fetchTickerOptionChain = async (
   }
   return response.json();
 };
+
+export const fetchGexProfile = async (
+  symbol: string = "QQQ",
+  options: { range?: number; step?: number; days?: number } = {}
+): Promise<GexProfile> => {
+  const params = new URLSearchParams({ symbol });
+  if (options.range !== undefined) params.set("range", String(options.range));
+  if (options.step !== undefined) params.set("step", String(options.step));
+  if (options.days !== undefined) params.set("days", String(options.days));
+  const response = await fetch(`/api/gex-profile?${params.toString()}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Gamma Profile 조회 실패");
+  }
+  return response.json();
+};
+
+export const fetchGexHeatmap = async (
+  symbol: string = "QQQ",
+  days?: number
+): Promise<GexHeatmap> => {
+  const params = new URLSearchParams({ symbol });
+  if (days !== undefined) params.set("days", String(days));
+  const response = await fetch(`/api/gex-heatmap?${params.toString()}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "GEX Heatmap 조회 실패");
+  }
+  return response.json();
+};
+
+export const fetchZeroDte = async (
+  symbol: string = "QQQ"
+): Promise<ZeroDteAnalysis> => {
+  const params = new URLSearchParams({ symbol });
+  const response = await fetch(`/api/zero-dte?${params.toString()}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "0DTE 분석 조회 실패");
+  }
+  return response.json();
+};